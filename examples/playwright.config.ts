@@ -22,10 +22,8 @@ export default defineConfig({
     [
       '@qastudio-dev/playwright',
       {
-        // Required settings
-        apiUrl: process.env.QA_STUDIO_API_URL || 'https://qastudio.dev/api',
-        apiKey: process.env.QA_STUDIO_API_KEY!,
-        projectId: process.env.QA_STUDIO_PROJECT_ID!,
+        // apiUrl, apiKey and projectId are read from the QASTUDIO_API_URL,
+        // QASTUDIO_API_KEY and QASTUDIO_PROJECT_ID environment variables
 
         // Optional settings
         environment: process.env.CI ? 'CI' : 'local',
@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import type { AddressInfo } from 'net';
+import { QAStudioAPIClient, APIError } from './api-client';
+
+describe('QAStudioAPIClient', () => {
+  let server: http.Server;
+  let apiUrl: string;
+  let responses: Array<{ status: number; headers?: Record<string, string>; body: unknown }>;
+  let requestCount: number;
+  let lastRequest: { method?: string; url?: string };
+  let lastBody: { contentLength?: string; received: number; text: string };
+
+  beforeEach(async () => {
+    requestCount = 0;
+    responses = [];
+    server = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', (chunk: Buffer) => chunks.push(chunk));
+      req.on('end', () => {
+        requestCount++;
+        lastRequest = { method: req.method, url: req.url };
+        const body = Buffer.concat(chunks);
+        lastBody = {
+          contentLength: req.headers['content-length'],
+          received: body.length,
+          text: body.toString('latin1'),
+        };
+        const response = responses.shift() ?? { status: 200, body: {} };
+        res.writeHead(response.status, {
+          'Content-Type': 'application/json',
+          ...response.headers,
+        });
+        res.end(JSON.stringify(response.body));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    apiUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const createClient = () =>
+    new QAStudioAPIClient({ apiUrl, apiKey: 'key', projectId: 'project', maxRetries: 3 });
+
+  it('should retry rate-limited requests after the Retry-After delay', async () => {
+    responses = [
+      { status: 429, headers: { 'Retry-After': '0' }, body: { error: 'Too many requests' } },
+      { status: 503, headers: { 'Retry-After': '0' }, body: { error: 'Unavailable' } },
+      { status: 200, body: { id: 'run-1' } },
+    ];
+
+    const response = await createClient().createTestRun({ projectId: 'project', name: 'Run' });
+
+    expect(response.id).toBe('run-1');
+    expect(requestCount).toBe(3);
+  });
+
+  it('should not retry other client errors', async () => {
+    responses = [{ status: 400, body: { error: 'Bad request' } }];
+
+    const error = await createClient()
+      .createTestRun({ projectId: 'project', name: 'Run' })
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(APIError);
+    expect((error as APIError).statusCode).toBe(400);
+    expect(requestCount).toBe(1);
+  });
+
+  it('should get a test run', async () => {
+    responses = [{ status: 200, body: { id: 'run-1', status: 'active' } }];
+
+    const run = await createClient().getTestRun('run-1');
+
+    expect(run).toEqual({ id: 'run-1', status: 'active' });
+    expect(lastRequest).toEqual({ method: 'GET', url: '/api/runs/run-1' });
+  });
+
+  describe('uploadAttachment', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'qastudio-upload-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should stream a file from disk with a matching Content-Length', async () => {
+      const file = path.join(dir, 'trace.zip');
+      fs.writeFileSync(file, Buffer.alloc(300_000, 'x'));
+      responses = [{ status: 200, body: { attachment: { id: 'a1' } } }];
+
+      await createClient().uploadAttachment(
+        'result-1',
+        'trace.zip',
+        'application/zip',
+        file,
+        'trace'
+      );
+
+      expect(lastBody.received).toBeGreaterThan(300_000);
+      expect(Number(lastBody.contentLength)).toBe(lastBody.received);
+      expect(lastBody.text).toContain('filename="trace.zip"');
+      expect(lastBody.text).toContain('x'.repeat(300_000));
+    });
+
+    it('should fail without retrying when the file is missing', async () => {
+      // A retry would wait at least 500ms before the next attempt
+      const start = Date.now();
+      const error = await createClient()
+        .uploadAttachment('result-1', 'trace.zip', 'application/zip', path.join(dir, 'missing.zip'))
+        .catch((e: unknown) => e);
+
+      expect((error as NodeJS.ErrnoException).code).toBe('ENOENT');
+      expect(requestCount).toBe(0);
+      expect(Date.now() - start).toBeLessThan(400);
+    });
+
+    it('should retry server errors with the same body', async () => {
+      const file = path.join(dir, 'video.webm');
+      fs.writeFileSync(file, 'video-data');
+      responses = [
+        { status: 503, headers: { 'Retry-After': '0' }, body: { error: 'Unavailable' } },
+        { status: 200, body: { attachment: { id: 'a1' } } },
+      ];
+
+      await createClient().uploadAttachment('result-1', 'video', 'video/webm', file);
+
+      expect(requestCount).toBe(2);
+      expect(lastBody.text).toContain('video-data');
+      expect(Number(lastBody.contentLength)).toBe(lastBody.received);
+    });
+  });
+});
@@ -1,5 +1,12 @@
 import * as https from 'https';
 import * as http from 'http';
+import * as fs from 'fs';
+import * as tls from 'tls';
+import { once } from 'events';
+import { pipeline } from 'stream/promises';
+import { ConcurrencyLimiter } from './limiter';
+import { HttpsProxyAgent, getProxyAuthorization, resolveProxyUrl } from './proxy';
+import { computeBackoff, parseRetryAfter } from './utils';
 import type {
   QAStudioReporterOptions,
   CreateTestRunRequest,
@@ -8,6 +15,13 @@ import type {
   SubmitTestResultsResponse,
   CompleteTestRunRequest,
   CompleteTestRunResponse,
+  CompleteShardRequest,
+  CompleteShardResponse,
+  SubmitPlannedTestsRequest,
+  SendLiveEventsRequest,
+  SyncTestCasesRequest,
+  SyncTestCasesResponse,
+  TestRunStatusResponse,
 } from './types';
 
 export class QAStudioAPIClient {
@@ -18,6 +32,9 @@ export class QAStudioAPIClient {
   private readonly verbose: boolean;
   private readonly httpAgent: http.Agent;
   private readonly httpsAgent: https.Agent;
+  private readonly proxyUrl?: URL;
+  private readonly requestLimiter: ConcurrencyLimiter;
+  private readonly uploadLimiter: ConcurrencyLimiter;
 
   constructor(options: QAStudioReporterOptions) {
     this.apiUrl = options.apiUrl.replace(/\/$/, ''); // Remove trailing slash
@@ -25,6 +42,13 @@ export class QAStudioAPIClient {
     this.maxRetries = options.maxRetries ?? 3;
     this.timeout = options.timeout ?? 30000;
     this.verbose = options.verbose ?? false;
+    this.requestLimiter = new ConcurrencyLimiter(options.maxConcurrentRequests ?? 4);
+    this.uploadLimiter = new ConcurrencyLimiter(options.maxConcurrentUploads ?? 2);
+
+    this.proxyUrl = resolveProxyUrl(this.apiUrl, options.proxy);
+    if (this.proxyUrl) {
+      this.log(`Using proxy: ${this.proxyUrl.protocol}//${this.proxyUrl.host}`);
+    }
 
     // Create HTTP agents with Keep-Alive for connection reuse
     this.httpAgent = new http.Agent({
@@ -33,11 +57,15 @@ export class QAStudioAPIClient {
       maxSockets: 10,
     });
 
-    this.httpsAgent = new https.Agent({
+    const httpsAgentOptions: https.AgentOptions = {
       keepAlive: true,
       keepAliveMsecs: 30000,
       maxSockets: 10,
-    });
+      ...loadTlsOptions(options),
+    };
+    this.httpsAgent = this.proxyUrl
+      ? new HttpsProxyAgent(this.proxyUrl, httpsAgentOptions)
+      : new https.Agent(httpsAgentOptions);
   }
 
   /**
@@ -62,6 +90,28 @@ export class QAStudioAPIClient {
     });
   }
 
+  /**
+   * Report tests planned for a test run
+   */
+  async submitPlannedTests(request: SubmitPlannedTestsRequest): Promise<void> {
+    this.log(`Submitting ${request.tests.length} planned tests to run ${request.testRunId}`);
+    await this.request<unknown>(`/runs/${request.testRunId}/planned-tests`, {
+      method: 'POST',
+      body: request,
+    });
+  }
+
+  /**
+   * Post live progress events for a running test run
+   */
+  async sendLiveEvents(request: SendLiveEventsRequest): Promise<void> {
+    this.log(`Sending ${request.events.length} live events to run ${request.testRunId}`);
+    await this.request<unknown>(`/runs/${request.testRunId}/events`, {
+      method: 'POST',
+      body: request,
+    });
+  }
+
   /**
    * Complete a test run
    */
@@ -73,23 +123,63 @@ export class QAStudioAPIClient {
     });
   }
 
+  /**
+   * Get the status and totals of a test run
+   */
+  async getTestRun(testRunId: string): Promise<TestRunStatusResponse> {
+    this.log(`Getting test run ${testRunId}`);
+    return this.request<TestRunStatusResponse>(`/runs/${testRunId}`, { method: 'GET' });
+  }
+
+  /**
+   * Report a finished shard of a merged test run
+   */
+  async completeShard(request: CompleteShardRequest): Promise<CompleteShardResponse> {
+    this.log(
+      `Completing shard ${request.shard.current}/${request.shard.total} of run ${request.testRunId}`
+    );
+    return this.request<CompleteShardResponse>(`/runs/${request.testRunId}/shards/complete`, {
+      method: 'POST',
+      body: request,
+    });
+  }
+
+  /**
+   * Create or match test cases for Playwright tests by their stable key
+   */
+  async syncTestCases(request: SyncTestCasesRequest): Promise<SyncTestCasesResponse> {
+    this.log(`Syncing ${request.testCases.length} test cases`);
+    return this.request<SyncTestCasesResponse>('/test-cases/sync', {
+      method: 'POST',
+      body: request,
+    });
+  }
+
   /**
    * Upload an attachment using multipart/form-data
+   *
+   * `data` is either the attachment content or the path of a file on disk.
+   * Files are streamed into the request body when the upload happens rather
+   * than being read into memory.
    */
   async uploadAttachment(
     testResultId: string,
     name: string,
     contentType: string,
-    data: Buffer,
-    type?: string
+    data: Buffer | string,
+    type?: string,
+    metadata?: Record<string, string>
   ): Promise<{
     attachment: { id: string; filename: string; url: string; size: number; mimeType: string };
   }> {
-    this.log(`Uploading attachment: ${name} (${contentType}) [${data.length} bytes]`);
+    this.log(
+      `Uploading attachment: ${name} (${contentType}) [${typeof data === 'string' ? data : `${data.length} bytes`}]`
+    );
     return this.uploadMultipart(`/attachments`, {
       file: { data, filename: name, contentType },
       testResultId,
       ...(type ? { type } : {}),
+      ...metadata,
     });
   }
 
@@ -105,24 +195,49 @@ export class QAStudioAPIClient {
     }
   ): Promise<T> {
     const url = `${this.apiUrl}${path}`;
+    return this.withRetry(this.requestLimiter, () => this.makeRequest<T>(url, options));
+  }
+
+  /**
+   * Run a request with retries, jittered exponential backoff and rate-limit handling
+   *
+   * Each attempt takes a slot from the given limiter; slots are not held while
+   * waiting between attempts. 429 and 503 responses are retried after the delay
+   * given by their Retry-After header, other 4xx errors are not retried.
+   */
+  private async withRetry<T>(
+    limiter: ConcurrencyLimiter,
+    attemptRequest: () => Promise<T>
+  ): Promise<T> {
     let lastError: Error | null = null;
+    let delay = 0;
 
     for (let attempt = 0; attempt < this.maxRetries; attempt++) {
-      try {
-        if (attempt > 0) {
-          this.log(`Retry attempt ${attempt + 1}/${this.maxRetries}`);
-          await this.sleep(Math.min(1000 * Math.pow(2, attempt), 10000)); // Exponential backoff
-        }
+      if (attempt > 0) {
+        this.log(`Retry attempt ${attempt + 1}/${this.maxRetries} in ${delay}ms`);
+        await this.sleep(delay);
+      }
 
-        return await this.makeRequest<T>(url, options);
+      try {
+        return await limiter.run(attemptRequest);
       } catch (error) {
         lastError = error as Error;
         this.log(`Request failed (attempt ${attempt + 1}/${this.maxRetries}):`, error);
 
-        // Don't retry on 4xx errors (client errors)
-        if (error instanceof APIError && error.statusCode >= 400 && error.statusCode < 500) {
+        // Don't retry on 4xx errors (client errors), except rate limiting
+        if (
+          error instanceof APIError &&
+          error.statusCode >= 400 &&
+          error.statusCode < 500 &&
+          error.statusCode !== 429
+        ) {
           throw error;
         }
+
+        delay =
+          error instanceof APIError && error.retryAfterMs !== undefined
+            ? error.retryAfterMs
+            : computeBackoff(attempt + 1);
       }
     }
 
@@ -142,8 +257,6 @@ export class QAStudioAPIClient {
   ): Promise<T> {
     return new Promise((resolve, reject) => {
       const parsedUrl = new URL(url);
-      const isHttps = parsedUrl.protocol === 'https:';
-      const httpModule = isHttps ? https : http;
 
       const bodyData = options.body ? JSON.stringify(options.body) : undefined;
 
@@ -157,10 +270,9 @@ export class QAStudioAPIClient {
           ...options.headers,
         },
         timeout: this.timeout,
-        agent: isHttps ? this.httpsAgent : this.httpAgent,
       };
 
-      const req = httpModule.request(parsedUrl, requestOptions, (res) => {
+      const req = this.createHttpRequest(parsedUrl, requestOptions, (res) => {
         let data = '';
 
         res.on('data', (chunk) => {
@@ -178,7 +290,13 @@ export class QAStudioAPIClient {
               reject(new Error(`Failed to parse response: ${error}`));
             }
           } else {
-            reject(new APIError(statusCode, data || res.statusMessage || 'Request failed'));
+            reject(
+              new APIError(
+                statusCode,
+                data || res.statusMessage || 'Request failed',
+                parseRetryAfter(res.headers['retry-after'])
+              )
+            );
           }
         });
       });
@@ -202,90 +320,91 @@ export class QAStudioAPIClient {
 
   /**
    * Upload multipart/form-data request
+   *
+   * The body is built once, before the first attempt, so a missing or unreadable
+   * file fails right away instead of being retried like a network error.
    */
   private async uploadMultipart<T>(path: string, fields: Record<string, unknown>): Promise<T> {
     const url = `${this.apiUrl}${path}`;
-    let lastError: Error | null = null;
-
-    for (let attempt = 0; attempt < this.maxRetries; attempt++) {
-      try {
-        if (attempt > 0) {
-          this.log(`Retry attempt ${attempt + 1}/${this.maxRetries}`);
-          await this.sleep(Math.min(1000 * Math.pow(2, attempt), 10000));
-        }
-
-        return await this.makeMultipartRequest<T>(url, fields);
-      } catch (error) {
-        lastError = error as Error;
-        this.log(`Request failed (attempt ${attempt + 1}/${this.maxRetries}):`, error);
+    const body = await this.buildMultipartBody(fields);
+    return this.withRetry(this.uploadLimiter, () => this.makeMultipartRequest<T>(url, body));
+  }
 
-        if (error instanceof APIError && error.statusCode >= 400 && error.statusCode < 500) {
-          throw error;
+  /**
+   * Build the parts of a multipart/form-data body
+   *
+   * Files on disk are only checked here, and streamed when the request is sent.
+   */
+  private async buildMultipartBody(fields: Record<string, unknown>): Promise<MultipartBody> {
+    // Generate boundary
+    const boundary = `----FormBoundary${Date.now()}${Math.random().toString(36)}`;
+
+    const parts: MultipartPart[] = [];
+
+    for (const [key, value] of Object.entries(fields)) {
+      if (key === 'file' && typeof value === 'object' && value !== null) {
+        // Handle file field
+        const file = value as { data: Buffer | string; filename: string; contentType: string };
+        parts.push(
+          Buffer.from(
+            `--${boundary}\r\n` +
+              `Content-Disposition: form-data; name="file"; filename="${file.filename}"\r\n` +
+              `Content-Type: ${file.contentType}\r\n\r\n`
+          )
+        );
+        if (typeof file.data === 'string') {
+          await fs.promises.access(file.data, fs.constants.R_OK);
+          const { size } = await fs.promises.stat(file.data);
+          parts.push({ path: file.data, size });
+        } else {
+          parts.push(file.data);
         }
+        parts.push(Buffer.from('\r\n'));
+      } else {
+        // Handle regular field
+        parts.push(
+          Buffer.from(
+            `--${boundary}\r\n` +
+              `Content-Disposition: form-data; name="${key}"\r\n\r\n` +
+              `${value}\r\n`
+          )
+        );
       }
     }
 
-    throw lastError || new Error('Request failed after all retries');
+    // Add closing boundary
+    parts.push(Buffer.from(`--${boundary}--\r\n`));
+
+    return { boundary, parts };
   }
 
   /**
    * Make a multipart/form-data HTTP request
    */
-  private async makeMultipartRequest<T>(url: string, fields: Record<string, unknown>): Promise<T> {
+  private async makeMultipartRequest<T>(
+    url: string,
+    { boundary, parts }: MultipartBody
+  ): Promise<T> {
+    const contentLength = parts.reduce(
+      (total, part) => total + (Buffer.isBuffer(part) ? part.length : part.size),
+      0
+    );
+
     return new Promise((resolve, reject) => {
       const parsedUrl = new URL(url);
-      const isHttps = parsedUrl.protocol === 'https:';
-      const httpModule = isHttps ? https : http;
-
-      // Generate boundary
-      const boundary = `----FormBoundary${Date.now()}${Math.random().toString(36)}`;
-
-      // Build multipart body
-      const parts: Buffer[] = [];
-
-      for (const [key, value] of Object.entries(fields)) {
-        if (key === 'file' && typeof value === 'object' && value !== null) {
-          // Handle file field
-          const file = value as { data: Buffer; filename: string; contentType: string };
-          parts.push(
-            Buffer.from(
-              `--${boundary}\r\n` +
-                `Content-Disposition: form-data; name="file"; filename="${file.filename}"\r\n` +
-                `Content-Type: ${file.contentType}\r\n\r\n`
-            )
-          );
-          parts.push(file.data);
-          parts.push(Buffer.from('\r\n'));
-        } else {
-          // Handle regular field
-          parts.push(
-            Buffer.from(
-              `--${boundary}\r\n` +
-                `Content-Disposition: form-data; name="${key}"\r\n\r\n` +
-                `${value}\r\n`
-            )
-          );
-        }
-      }
-
-      // Add closing boundary
-      parts.push(Buffer.from(`--${boundary}--\r\n`));
-
-      const body = Buffer.concat(parts);
 
       const requestOptions: http.RequestOptions = {
         method: 'POST',
         headers: {
           'Content-Type': `multipart/form-data; boundary=${boundary}`,
-          'Content-Length': body.length,
+          'Content-Length': contentLength,
           Authorization: `Bearer ${this.apiKey}`,
           'User-Agent': '@qastudio-dev/playwright/1.0.0',
         },
         timeout: this.timeout,
-        agent: isHttps ? this.httpsAgent : this.httpAgent,
       };
 
-      const req = httpModule.request(parsedUrl, requestOptions, (res) => {
+      const req = this.createHttpRequest(parsedUrl, requestOptions, (res) => {
         let data = '';
 
         res.on('data', (chunk) => {
@@ -303,7 +422,13 @@ export class QAStudioAPIClient {
               reject(new Error(`Failed to parse response: ${error}`));
             }
           } else {
-            reject(new APIError(statusCode, data || res.statusMessage || 'Request failed'));
+            reject(
+              new APIError(
+                statusCode,
+                data || res.statusMessage || 'Request failed',
+                parseRetryAfter(res.headers['retry-after'])
+              )
+            );
           }
         });
       });
@@ -317,11 +442,66 @@ export class QAStudioAPIClient {
         reject(new Error(`Request timeout after ${this.timeout}ms`));
       });
 
-      req.write(body);
-      req.end();
+      this.writeMultipartBody(req, parts).catch((error: unknown) => {
+        req.destroy();
+        reject(error);
+      });
     });
   }
 
+  /**
+   * Write multipart body parts to the request, streaming files from disk
+   */
+  private async writeMultipartBody(req: http.ClientRequest, parts: MultipartPart[]): Promise<void> {
+    for (const part of parts) {
+      if (Buffer.isBuffer(part)) {
+        if (!req.write(part)) {
+          await once(req, 'drain');
+        }
+      } else {
+        await pipeline(fs.createReadStream(part.path), req, { end: false });
+      }
+    }
+    req.end();
+  }
+
+  /**
+   * Create an HTTP(S) request, routed through the configured proxy if any
+   *
+   * HTTPS requests are tunneled through the proxy by the HTTPS agent; plain HTTP
+   * requests are sent to the proxy with the absolute target URL as the path.
+   */
+  private createHttpRequest(
+    url: URL,
+    options: http.RequestOptions,
+    callback: (res: http.IncomingMessage) => void
+  ): http.ClientRequest {
+    if (url.protocol === 'https:') {
+      return https.request(url, { ...options, agent: this.httpsAgent }, callback);
+    }
+
+    if (!this.proxyUrl) {
+      return http.request(url, { ...options, agent: this.httpAgent }, callback);
+    }
+
+    const proxyAuthorization = getProxyAuthorization(this.proxyUrl);
+    const proxyModule = this.proxyUrl.protocol === 'https:' ? https : http;
+    return proxyModule.request(
+      {
+        ...options,
+        host: this.proxyUrl.hostname,
+        port: this.proxyUrl.port || (this.proxyUrl.protocol === 'https:' ? 443 : 80),
+        path: url.href,
+        headers: {
+          ...options.headers,
+          Host: url.host,
+          ...(proxyAuthorization ? { 'Proxy-Authorization': proxyAuthorization } : {}),
+        },
+      },
+      callback
+    );
+  }
+
   /**
    * Sleep for specified milliseconds
    */
@@ -339,13 +519,60 @@ export class QAStudioAPIClient {
   }
 }
 
+/**
+ * Read the CA bundle and client certificate files configured in the options
+ */
+function loadTlsOptions(options: QAStudioReporterOptions): https.AgentOptions {
+  const readOption = (name: string, file: string | undefined): Buffer | undefined => {
+    if (!file) {
+      return undefined;
+    }
+    try {
+      return fs.readFileSync(file);
+    } catch (error) {
+      throw new Error(
+        `QAStudio.dev reporter: could not read ${name} "${file}": ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  };
+
+  const ca = readOption('caFile', options.caFile);
+  const cert = readOption('clientCertFile', options.clientCertFile);
+  const key = readOption('clientKeyFile', options.clientKeyFile);
+
+  return {
+    // Extend Node's default trust store rather than replacing it
+    ...(ca ? { ca: [...tls.rootCertificates, ca.toString('utf-8')] } : {}),
+    ...(cert ? { cert } : {}),
+    ...(key ? { key } : {}),
+    ...(options.clientKeyPassphrase ? { passphrase: options.clientKeyPassphrase } : {}),
+  };
+}
+
+/**
+ * Part of a multipart body: in-memory data, or a file streamed from disk
+ */
+type MultipartPart = Buffer | { path: string; size: number };
+
+/**
+ * Multipart body, reused as is by every attempt of an upload
+ */
+interface MultipartBody {
+  boundary: string;
+  parts: MultipartPart[];
+}
+
 /**
  * Custom error class for API errors
  */
 export class APIError extends Error {
   constructor(
     public readonly statusCode: number,
-    message: string
+    message: string,
+    /**
+     * Delay requested by the server's Retry-After header, in milliseconds
+     */
+    public readonly retryAfterMs?: number
   ) {
     super(`API Error ${statusCode}: ${message}`);
     this.name = 'APIError';
@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { Batcher } from './batcher';
+
+describe('Batcher', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should send a batch as soon as batchSize items are buffered', async () => {
+    const handler = vi.fn(async (items: number[]) => items.map((n) => n * 2));
+    const batcher = new Batcher({ batchSize: 3, flushInterval: 0, handler });
+
+    const results = [batcher.add(1), batcher.add(2), batcher.add(3)];
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler).toHaveBeenCalledWith([1, 2, 3]);
+    await expect(Promise.all(results)).resolves.toEqual([2, 4, 6]);
+  });
+
+  it('should send a partial batch after flushInterval elapses', async () => {
+    vi.useFakeTimers();
+    const handler = vi.fn(async (items: string[]) => items);
+    const batcher = new Batcher({ batchSize: 10, flushInterval: 1000, handler });
+
+    const result = batcher.add('a');
+    expect(handler).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(handler).toHaveBeenCalledWith(['a']);
+    await expect(result).resolves.toBe('a');
+  });
+
+  it('should only buffer items when flushInterval is 0', async () => {
+    vi.useFakeTimers();
+    const handler = vi.fn(async (items: string[]) => items);
+    const batcher = new Batcher({ batchSize: 10, flushInterval: 0, handler });
+
+    batcher.add('a');
+    await vi.advanceTimersByTimeAsync(60000);
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(batcher.pending).toBe(1);
+  });
+
+  it('should send remaining items and wait for in-flight batches on flush', async () => {
+    const handler = vi.fn(async (items: number[]) => items);
+    const batcher = new Batcher({ batchSize: 2, flushInterval: 0, handler });
+
+    const results = [1, 2, 3, 4, 5].map((n) => batcher.add(n));
+    await batcher.flush();
+
+    expect(handler).toHaveBeenCalledTimes(3);
+    expect(handler).toHaveBeenLastCalledWith([5]);
+    expect(batcher.pending).toBe(0);
+    await expect(Promise.all(results)).resolves.toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('should reject every item in a batch when the handler throws', async () => {
+    const handler = vi.fn(async () => {
+      throw new Error('network down');
+    });
+    const batcher = new Batcher<number, number>({ batchSize: 2, flushInterval: 0, handler });
+
+    const results = [batcher.add(1), batcher.add(2)];
+
+    await expect(results[0]).rejects.toThrow('network down');
+    await expect(results[1]).rejects.toThrow('network down');
+  });
+
+  it('should reject items the handler returned no result for', async () => {
+    const handler = vi.fn(async () => [1]);
+    const batcher = new Batcher<number, number>({ batchSize: 2, flushInterval: 0, handler });
+
+    const results = [batcher.add(1), batcher.add(2)];
+
+    await expect(results[0]).resolves.toBe(1);
+    await expect(results[1]).rejects.toThrow(/No result returned/);
+  });
+});
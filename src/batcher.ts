@@ -0,0 +1,132 @@
+import { batchArray } from './utils';
+
+/**
+ * Configuration for a Batcher instance
+ */
+export interface BatcherOptions<T, R> {
+  /**
+   * Maximum number of items sent in a single batch
+   */
+  batchSize: number;
+
+  /**
+   * Maximum time (ms) an item may wait in the buffer before a flush is triggered.
+   * Set to 0 to only flush when the buffer is full or flush() is called.
+   */
+  flushInterval: number;
+
+  /**
+   * Sends one batch. Must resolve with exactly one result per item, in the same order.
+   */
+  handler: (items: T[]) => Promise<R[]>;
+}
+
+interface QueuedItem<T, R> {
+  item: T;
+  resolve: (result: R) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Buffers items and hands them to a handler in batches
+ *
+ * A batch is sent as soon as `batchSize` items are buffered, or when the oldest
+ * buffered item has waited `flushInterval` ms. Each call to `add()` returns a promise
+ * for that item's own result, so callers can track success per item.
+ */
+export class Batcher<T, R> {
+  private readonly batchSize: number;
+  private readonly flushInterval: number;
+  private readonly handler: (items: T[]) => Promise<R[]>;
+  private queue: QueuedItem<T, R>[] = [];
+  private timer: NodeJS.Timeout | null = null;
+  private inFlight = new Set<Promise<void>>();
+
+  constructor(options: BatcherOptions<T, R>) {
+    this.batchSize = Math.max(1, Math.floor(options.batchSize));
+    this.flushInterval = options.flushInterval;
+    this.handler = options.handler;
+  }
+
+  /**
+   * Number of items waiting to be sent
+   */
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Add an item to the buffer
+   */
+  add(item: T): Promise<R> {
+    return new Promise<R>((resolve, reject) => {
+      this.queue.push({ item, resolve, reject });
+
+      if (this.queue.length >= this.batchSize) {
+        this.drain();
+      } else if (!this.timer && this.flushInterval > 0) {
+        this.timer = setTimeout(() => {
+          this.timer = null;
+          this.drain();
+        }, this.flushInterval);
+        // Don't keep the process alive just for a pending flush
+        this.timer.unref();
+      }
+    });
+  }
+
+  /**
+   * Send everything still buffered and wait for all in-flight batches to settle
+   */
+  async flush(): Promise<void> {
+    this.drain();
+    while (this.inFlight.size > 0) {
+      await Promise.all(this.inFlight);
+    }
+  }
+
+  /**
+   * Move buffered items into batches and start sending them
+   */
+  private drain(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    if (this.queue.length === 0) {
+      return;
+    }
+
+    const queued = this.queue;
+    this.queue = [];
+
+    for (const batch of batchArray(queued, this.batchSize)) {
+      this.send(batch);
+    }
+  }
+
+  /**
+   * Send a single batch and settle each item's promise
+   */
+  private send(batch: QueuedItem<T, R>[]): void {
+    const promise = this.handler(batch.map((queued) => queued.item))
+      .then((results) => {
+        batch.forEach((queued, index) => {
+          if (index < results.length) {
+            queued.resolve(results[index]);
+          } else {
+            queued.reject(new Error('No result returned for batched item'));
+          }
+        });
+      })
+      .catch((error: unknown) => {
+        batch.forEach((queued) => queued.reject(error));
+      })
+      .finally(() => {
+        this.inFlight.delete(promise);
+      });
+
+    this.inFlight.add(promise);
+  }
+}
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import { collectCIMetadata, detectCI, readGitInfo, renderTestRunName } from './ci';
+
+describe('detectCI', () => {
+  it('should read GitHub Actions pull request metadata', () => {
+    expect(
+      detectCI({
+        GITHUB_ACTIONS: 'true',
+        GITHUB_SERVER_URL: 'https://github.com',
+        GITHUB_REPOSITORY: 'acme/shop',
+        GITHUB_RUN_ID: '123',
+        GITHUB_RUN_NUMBER: '45',
+        GITHUB_JOB: 'e2e',
+        GITHUB_SHA: 'abc123',
+        GITHUB_REF: 'refs/pull/7/merge',
+        GITHUB_REF_NAME: '7/merge',
+        GITHUB_HEAD_REF: 'feature/login',
+        GITHUB_ACTOR: 'octocat',
+      })
+    ).toEqual({
+      provider: 'github',
+      buildId: '123',
+      buildNumber: '45',
+      buildUrl: 'https://github.com/acme/shop/actions/runs/123',
+      jobName: 'e2e',
+      repository: 'acme/shop',
+      commitSha: 'abc123',
+      branch: 'feature/login',
+      pullRequest: '7',
+      author: 'octocat',
+    });
+  });
+
+  it('should read GitLab CI merge request metadata', () => {
+    expect(
+      detectCI({
+        GITLAB_CI: 'true',
+        CI_PIPELINE_ID: '900',
+        CI_PIPELINE_IID: '12',
+        CI_COMMIT_SHA: 'def456',
+        CI_COMMIT_REF_NAME: 'main',
+        CI_MERGE_REQUEST_SOURCE_BRANCH_NAME: 'fix/cart',
+        CI_MERGE_REQUEST_IID: '3',
+      })
+    ).toMatchObject({
+      provider: 'gitlab',
+      buildId: '900',
+      buildNumber: '12',
+      branch: 'fix/cart',
+      pullRequest: '3',
+    });
+  });
+
+  it('should normalize provider specific branch and pull request values', () => {
+    expect(
+      detectCI({ JENKINS_URL: 'https://ci', GIT_BRANCH: 'origin/main', BUILD_NUMBER: '8' })
+    ).toMatchObject({ provider: 'jenkins', branch: 'main', buildNumber: '8' });
+    expect(
+      detectCI({ TF_BUILD: 'True', BUILD_SOURCEBRANCH: 'refs/heads/release/1.2' })
+    ).toMatchObject({ provider: 'azure', branch: 'release/1.2' });
+    expect(
+      detectCI({ CIRCLECI: 'true', CIRCLE_PULL_REQUEST: 'https://github.com/acme/shop/pull/42' })
+    ).toMatchObject({ provider: 'circleci', pullRequest: '42' });
+    expect(detectCI({ BUILDKITE: 'true', BUILDKITE_PULL_REQUEST: 'false' })).toMatchObject({
+      provider: 'buildkite',
+      pullRequest: undefined,
+    });
+  });
+
+  it('should return an empty object outside CI', () => {
+    expect(detectCI({})).toEqual({});
+  });
+});
+
+describe('collectCIMetadata', () => {
+  it('should prefer CI values and fill gaps from git', () => {
+    const metadata = collectCIMetadata(
+      { GITHUB_ACTIONS: 'true', GITHUB_SHA: 'ci-sha', GITHUB_REF_NAME: 'main' },
+      { commitSha: 'local-sha', commitMessage: 'Fix login', author: 'Dev' }
+    );
+
+    expect(metadata).toEqual({
+      provider: 'github',
+      commitSha: 'ci-sha',
+      commitMessage: 'Fix login',
+      branch: 'main',
+      author: 'Dev',
+    });
+  });
+});
+
+describe('readGitInfo', () => {
+  it('should return an empty object outside a git repository', () => {
+    expect(readGitInfo('/')).toEqual({});
+  });
+});
+
+describe('renderTestRunName', () => {
+  const now = new Date('2025-03-01T10:20:30Z');
+
+  it('should fill placeholders from metadata', () => {
+    expect(
+      renderTestRunName(
+        '{branch} #{buildNumber} ({commit})',
+        { branch: 'main', buildNumber: '45', commitSha: '0123456789abcdef' },
+        'CI',
+        now
+      )
+    ).toBe('main #45 (0123456)');
+  });
+
+  it('should drop placeholders without a value', () => {
+    expect(renderTestRunName('{branch} #{buildNumber}', { branch: 'main' }, undefined, now)).toBe(
+      'main'
+    );
+    expect(renderTestRunName('{environment} - {branch}', {}, 'staging', now)).toBe('staging');
+  });
+
+  it('should keep unknown placeholders', () => {
+    expect(renderTestRunName('Nightly {unknown}', {}, undefined, now)).toBe('Nightly {unknown}');
+  });
+});
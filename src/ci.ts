@@ -0,0 +1,220 @@
+import { execFileSync } from 'child_process';
+import type { CIMetadata } from './types';
+
+/**
+ * Git information read from the local checkout
+ */
+export type GitInfo = Pick<CIMetadata, 'commitSha' | 'commitMessage' | 'branch' | 'author'>;
+
+/**
+ * Detect the CI provider and read its pipeline metadata from environment variables
+ *
+ * Returns an empty object when not running on a recognized CI provider.
+ */
+export function detectCI(env: NodeJS.ProcessEnv = process.env): CIMetadata {
+  if (env.GITHUB_ACTIONS === 'true') {
+    const server = env.GITHUB_SERVER_URL ?? 'https://github.com';
+    return {
+      provider: 'github',
+      buildId: env.GITHUB_RUN_ID,
+      buildNumber: env.GITHUB_RUN_NUMBER,
+      buildUrl:
+        env.GITHUB_REPOSITORY && env.GITHUB_RUN_ID
+          ? `${server}/${env.GITHUB_REPOSITORY}/actions/runs/${env.GITHUB_RUN_ID}`
+          : undefined,
+      jobName: env.GITHUB_JOB,
+      repository: env.GITHUB_REPOSITORY,
+      commitSha: env.GITHUB_SHA,
+      // GITHUB_HEAD_REF is only set for pull requests, where GITHUB_REF_NAME is "<n>/merge"
+      branch: env.GITHUB_HEAD_REF || env.GITHUB_REF_NAME,
+      pullRequest: env.GITHUB_REF?.match(/^refs\/pull\/(\d+)\//)?.[1],
+      author: env.GITHUB_ACTOR,
+    };
+  }
+
+  if (env.GITLAB_CI) {
+    return {
+      provider: 'gitlab',
+      buildId: env.CI_PIPELINE_ID,
+      buildNumber: env.CI_PIPELINE_IID,
+      buildUrl: env.CI_PIPELINE_URL,
+      jobName: env.CI_JOB_NAME,
+      repository: env.CI_PROJECT_PATH,
+      commitSha: env.CI_COMMIT_SHA,
+      commitMessage: env.CI_COMMIT_TITLE,
+      branch: env.CI_MERGE_REQUEST_SOURCE_BRANCH_NAME || env.CI_COMMIT_REF_NAME,
+      pullRequest: env.CI_MERGE_REQUEST_IID,
+      author: env.GITLAB_USER_LOGIN,
+    };
+  }
+
+  if (env.BUILDKITE) {
+    return {
+      provider: 'buildkite',
+      buildId: env.BUILDKITE_BUILD_ID,
+      buildNumber: env.BUILDKITE_BUILD_NUMBER,
+      buildUrl: env.BUILDKITE_BUILD_URL,
+      jobName: env.BUILDKITE_LABEL,
+      repository: env.BUILDKITE_REPO,
+      commitSha: env.BUILDKITE_COMMIT,
+      commitMessage: env.BUILDKITE_MESSAGE,
+      branch: env.BUILDKITE_BRANCH,
+      // Buildkite sets "false" for builds that are not pull requests
+      pullRequest:
+        env.BUILDKITE_PULL_REQUEST && env.BUILDKITE_PULL_REQUEST !== 'false'
+          ? env.BUILDKITE_PULL_REQUEST
+          : undefined,
+      author: env.BUILDKITE_BUILD_AUTHOR,
+    };
+  }
+
+  if (env.CIRCLECI) {
+    return {
+      provider: 'circleci',
+      buildId: env.CIRCLE_WORKFLOW_ID,
+      buildNumber: env.CIRCLE_BUILD_NUM,
+      buildUrl: env.CIRCLE_BUILD_URL,
+      jobName: env.CIRCLE_JOB,
+      repository:
+        env.CIRCLE_PROJECT_USERNAME && env.CIRCLE_PROJECT_REPONAME
+          ? `${env.CIRCLE_PROJECT_USERNAME}/${env.CIRCLE_PROJECT_REPONAME}`
+          : undefined,
+      commitSha: env.CIRCLE_SHA1,
+      branch: env.CIRCLE_BRANCH,
+      // CIRCLE_PULL_REQUEST holds the pull request URL
+      pullRequest: env.CIRCLE_PULL_REQUEST?.match(/\/(\d+)$/)?.[1],
+      author: env.CIRCLE_USERNAME,
+    };
+  }
+
+  if (env.TF_BUILD) {
+    return {
+      provider: 'azure',
+      buildId: env.BUILD_BUILDID,
+      buildNumber: env.BUILD_BUILDNUMBER,
+      buildUrl:
+        env.SYSTEM_TEAMFOUNDATIONCOLLECTIONURI && env.SYSTEM_TEAMPROJECT && env.BUILD_BUILDID
+          ? `${env.SYSTEM_TEAMFOUNDATIONCOLLECTIONURI}${env.SYSTEM_TEAMPROJECT}/_build/results?buildId=${env.BUILD_BUILDID}`
+          : undefined,
+      jobName: env.SYSTEM_JOBDISPLAYNAME,
+      repository: env.BUILD_REPOSITORY_NAME,
+      commitSha: env.BUILD_SOURCEVERSION,
+      commitMessage: env.BUILD_SOURCEVERSIONMESSAGE,
+      branch: stripRefPrefix(env.SYSTEM_PULLREQUEST_SOURCEBRANCH || env.BUILD_SOURCEBRANCH),
+      pullRequest: env.SYSTEM_PULLREQUEST_PULLREQUESTNUMBER || env.SYSTEM_PULLREQUEST_PULLREQUESTID,
+      author: env.BUILD_REQUESTEDFOR,
+    };
+  }
+
+  if (env.JENKINS_URL) {
+    return {
+      provider: 'jenkins',
+      buildId: env.BUILD_TAG,
+      buildNumber: env.BUILD_NUMBER,
+      buildUrl: env.BUILD_URL,
+      jobName: env.JOB_NAME,
+      commitSha: env.GIT_COMMIT,
+      // Multibranch pipelines set CHANGE_BRANCH / BRANCH_NAME, the Git plugin sets "origin/<branch>"
+      branch: env.CHANGE_BRANCH || env.BRANCH_NAME || env.GIT_BRANCH?.replace(/^origin\//, ''),
+      pullRequest: env.CHANGE_ID,
+      author: env.CHANGE_AUTHOR,
+    };
+  }
+
+  return {};
+}
+
+/**
+ * Read commit, branch and author from the git checkout in `cwd`
+ *
+ * Returns an empty object when git is not installed or `cwd` is not a repository.
+ */
+export function readGitInfo(cwd: string = process.cwd()): GitInfo {
+  const git = (...args: string[]) =>
+    execFileSync('git', args, {
+      cwd,
+      encoding: 'utf-8',
+      stdio: ['ignore', 'pipe', 'ignore'],
+      timeout: 5000,
+    }).trim();
+
+  try {
+    const [commitSha, author, commitMessage] = git('log', '-1', '--format=%H%n%an%n%s').split('\n');
+    const branch = git('rev-parse', '--abbrev-ref', 'HEAD');
+
+    return {
+      commitSha: commitSha || undefined,
+      author: author || undefined,
+      commitMessage: commitMessage || undefined,
+      // CI checkouts are often detached, in which case rev-parse prints "HEAD"
+      branch: branch && branch !== 'HEAD' ? branch : undefined,
+    };
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Collect run metadata from the CI environment, filling gaps from the local git checkout
+ */
+export function collectCIMetadata(
+  env: NodeJS.ProcessEnv = process.env,
+  git: GitInfo = readGitInfo()
+): CIMetadata {
+  const ci = detectCI(env);
+  const metadata: CIMetadata = { ...git };
+
+  for (const [key, value] of Object.entries(ci)) {
+    if (value) {
+      metadata[key as keyof CIMetadata] = value;
+    }
+  }
+
+  return metadata;
+}
+
+/**
+ * Fill `{placeholder}`s in a test run name template from CI metadata
+ *
+ * Placeholders without a value are removed, along with separators left dangling
+ * (e.g. '{branch} #{buildNumber}' renders as 'main' outside CI). Unknown
+ * placeholders are kept as written.
+ */
+export function renderTestRunName(
+  template: string,
+  metadata: CIMetadata,
+  environment?: string,
+  now: Date = new Date()
+): string {
+  const values: Record<string, string | undefined> = {
+    branch: metadata.branch,
+    buildNumber: metadata.buildNumber,
+    buildId: metadata.buildId,
+    commit: metadata.commitSha?.slice(0, 7),
+    sha: metadata.commitSha,
+    pr: metadata.pullRequest,
+    provider: metadata.provider,
+    job: metadata.jobName,
+    environment,
+    date: now.toISOString().split('T')[0],
+    time: now.toTimeString().split(' ')[0].replace(/:/g, '-'),
+  };
+
+  return template
+    .replace(/([#@]?)\{(\w+)\}/g, (match, prefix: string, name: string) => {
+      if (!(name in values)) {
+        return match;
+      }
+      const value = values[name];
+      return value ? `${prefix}${value}` : '';
+    })
+    .replace(/\s{2,}/g, ' ')
+    .replace(/^[\s\-–|:/]+|[\s\-–|:/]+$/g, '');
+}
+
+/**
+ * Strip "refs/heads/" from an Azure Pipelines branch ref
+ */
+function stripRefPrefix(ref: string | undefined): string | undefined {
+  return ref?.replace(/^refs\/heads\//, '');
+}
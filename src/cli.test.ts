@@ -0,0 +1,192 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import type { AddressInfo } from 'net';
+import { main } from './cli';
+
+const summary = {
+  total: 3,
+  passed: 2,
+  failed: 1,
+  skipped: 0,
+  flaky: 1,
+  interrupted: 0,
+  duration: 1200,
+};
+
+const testRun = {
+  id: 'run-1',
+  projectId: 'project-1',
+  name: 'Nightly',
+  status: 'active',
+  createdAt: '2025-01-01T00:00:00.000Z',
+  summary,
+};
+
+describe('qastudio-playwright', () => {
+  let server: http.Server;
+  let connection: string[];
+  let requests: Array<{ method?: string; url?: string; body: string }>;
+  let output: string[];
+  let errors: string[];
+
+  beforeEach(async () => {
+    requests = [];
+    output = [];
+    errors = [];
+    vi.spyOn(console, 'log').mockImplementation((line: string) => output.push(line));
+    vi.spyOn(console, 'error').mockImplementation((line: string) => errors.push(line));
+
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        requests.push({ method: req.method, url: req.url, body });
+        res.setHeader('Content-Type', 'application/json');
+        if (req.method === 'GET' && req.url === '/api/runs/run-1') {
+          res.end(JSON.stringify(testRun));
+        } else if (req.url === '/api/runs') {
+          res.end(JSON.stringify({ id: 'run-2' }));
+        } else if (req.url === '/api/attachments') {
+          res.end(JSON.stringify({ attachment: { id: 'attachment-1', url: 'https://files/1' } }));
+        } else {
+          res.end('{}');
+        }
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const apiUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+    connection = ['--api-url', apiUrl, '--api-key', 'key'];
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should create a test run and print only its ID', async () => {
+    const exitCode = await main([
+      'create-run',
+      ...connection,
+      '--project-id',
+      'project-1',
+      '--test-run-name',
+      'Nightly',
+      '--environment',
+      'staging',
+    ]);
+
+    expect(exitCode).toBe(0);
+    expect(output).toEqual(['run-2']);
+    expect(requests[0].url).toBe('/api/runs');
+    expect(JSON.parse(requests[0].body)).toMatchObject({
+      projectId: 'project-1',
+      name: 'Nightly',
+      environment: 'staging',
+    });
+  });
+
+  it('should complete a test run with the totals uploaded so far', async () => {
+    const exitCode = await main([
+      'complete-run',
+      ...connection,
+      '--test-run-id',
+      'run-1',
+      '--status',
+      'aborted',
+    ]);
+
+    expect(exitCode).toBe(0);
+    expect(requests.map((request) => `${request.method} ${request.url}`)).toEqual([
+      'GET /api/runs/run-1',
+      'POST /api/runs/run-1/complete',
+    ]);
+    expect(JSON.parse(requests[1].body)).toMatchObject({ status: 'aborted', summary });
+    expect(output).toEqual([
+      'Completed test run run-1 with status aborted: 3 tests, 2 passed, 1 failed, 0 skipped',
+    ]);
+  });
+
+  it('should upload a file as an attachment of a test result', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'qastudio-cli-'));
+    const file = path.join(dir, 'trace.zip');
+    fs.writeFileSync(file, 'trace contents');
+
+    const exitCode = await main([
+      'upload-attachment',
+      file,
+      ...connection,
+      '--test-result-id',
+      'result-1',
+      '--type',
+      'trace',
+    ]);
+    fs.rmSync(dir, { recursive: true, force: true });
+
+    expect(exitCode).toBe(0);
+    expect(requests[0].url).toBe('/api/attachments');
+    expect(requests[0].body).toContain('result-1');
+    expect(requests[0].body).toContain('trace contents');
+    expect(requests[0].body).toMatch(/name="type"\r\n\r\ntrace\r\n/);
+    expect(output).toEqual(['Uploaded trace.zip as attachment attachment-1: https://files/1']);
+  });
+
+  it('should show the status and totals of a test run', async () => {
+    const exitCode = await main(['status', ...connection, '--test-run-id', 'run-1']);
+
+    expect(exitCode).toBe(0);
+    expect(output).toEqual([
+      'Nightly (run-1): active',
+      '  3 tests: 2 passed, 1 failed, 0 skipped, 1 flaky, 0 interrupted',
+    ]);
+  });
+
+  it('should take the test run from the config file', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'qastudio-cli-'));
+    const configFile = path.join(dir, 'qastudio.config.json');
+    fs.writeFileSync(configFile, JSON.stringify({ testRunId: 'run-1', projectId: 'project-1' }));
+
+    const exitCode = await main(['status', ...connection, '--config', configFile]);
+    fs.rmSync(dir, { recursive: true, force: true });
+
+    expect(exitCode).toBe(0);
+    expect(requests.map((request) => `${request.method} ${request.url}`)).toEqual([
+      'GET /api/runs/run-1',
+    ]);
+    expect(output[0]).toBe('Nightly (run-1): active');
+  });
+
+  it('should print a test run as JSON', async () => {
+    await main(['status', ...connection, '--test-run-id', 'run-1', '--json']);
+
+    expect(JSON.parse(output[0])).toEqual(testRun);
+  });
+
+  it('should reject an unknown attachment type', async () => {
+    const exitCode = await main([
+      'upload-attachment',
+      'package.json',
+      ...connection,
+      '--test-result-id',
+      'result-1',
+      '--type',
+      'pdf',
+    ]);
+
+    expect(exitCode).toBe(1);
+    expect(errors[0]).toContain('--type must be screenshot, video, trace or other, got "pdf"');
+    expect(errors[1]).toContain('Usage: qastudio-playwright');
+    expect(requests).toEqual([]);
+  });
+
+  it('should reject options the command does not take', async () => {
+    const exitCode = await main(['status', ...connection, '--test-run', 'run-1']);
+
+    expect(exitCode).toBe(1);
+    expect(errors[0]).toContain('Unknown option for status: --test-run');
+    expect(errors[1]).toContain('Usage: qastudio-playwright');
+    expect(requests).toEqual([]);
+  });
+});
@@ -0,0 +1,557 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import * as path from 'path';
+import { QAStudioAPIClient } from './api-client';
+import { collectCIMetadata, renderTestRunName } from './ci';
+import { RecordingAPIClient } from './dry-run';
+import { readReport, uploadReport } from './import';
+import {
+  guessContentType,
+  isRunStatus,
+  mergeRunExports,
+  readRunExport,
+  type RunCompletion,
+} from './pipeline';
+import { replaySpool } from './spool';
+import type { ReplaySpoolOptions } from './spool';
+import { resolveOptions } from './config';
+import type { QAStudioReporterOptions } from './types';
+import {
+  determineAttachmentType,
+  generateTestRunName,
+  sanitizeUrl,
+  validateOptions,
+} from './utils';
+
+const USAGE = `Usage: qastudio-playwright <command> [options]
+
+Commands:
+  replay <spoolDir>          Upload test runs saved by the reporter's spoolDir option
+  import <report>            Upload a Playwright JSON report, blob report zip, or directory
+                             of blob report zips as a test run with its original timestamps
+  create-run                 Create a test run and print its ID
+  complete-run [export...]   Complete a test run, with the totals of the outputFile exports
+                             of its jobs (default: the totals uploaded so far)
+  upload-attachment <file>   Attach a file to a test result
+  status                     Show the status and totals of a test run
+
+Options:
+  --api-url <url>            QAStudio.dev API URL (default: $QASTUDIO_API_URL)
+  --api-key <key>            API key (default: $QASTUDIO_API_KEY)
+  --proxy <url>              Proxy URL (default: $QASTUDIO_PROXY, $HTTPS_PROXY / $HTTP_PROXY,
+                             honoring $NO_PROXY)
+  --ca-file <path>           PEM CA bundle to trust in addition to the default certificates
+  --cert-file <path>         PEM client certificate for mutual TLS
+  --key-file <path>          PEM private key of the client certificate
+  --config <path>            Reporter config file (default: $QASTUDIO_CONFIG or qastudio.config.*)
+  --verbose                  Enable detailed logging
+  -h, --help                 Show this help
+
+Test run options:
+  --project-id <id>          Project of the test run (default: $QASTUDIO_PROJECT_ID)
+  --test-run-id <id>         Existing test run (default: $QASTUDIO_TEST_RUN_ID); import adds
+                             its results to this run instead of creating one
+  --test-run-name <name>     Name of a created test run
+  --description <text>       Description of a created test run
+  --environment <name>       Environment of a created test run
+  --status <status>          Status complete-run sets: passed, failed, timedout, interrupted
+                             or aborted (default: the worst status of the exports)
+  --dry-run                  import: check and summarize the upload without sending anything
+  --json                     status: print the test run as JSON
+
+Attachment options:
+  --test-result-id <id>      Test result to attach the file to
+  --name <name>              Attachment name (default: the file name)
+  --content-type <type>      Content type (default: guessed from the file extension)
+  --type <type>              screenshot, video, trace or other (default: guessed)
+`;
+
+/**
+ * Parsed command line arguments
+ */
+interface CliArgs {
+  positionals: string[];
+  flags: Record<string, string | boolean>;
+}
+
+/**
+ * Command with the flags it accepts besides the common ones
+ */
+interface Command {
+  run: (args: CliArgs) => Promise<number>;
+  flags: string[];
+}
+
+/**
+ * Invalid command line, reported with the help text
+ */
+class UsageError extends Error {}
+
+/**
+ * Flags that never take a value
+ */
+const BOOLEAN_FLAGS = new Set(['verbose', 'help', 'dry-run', 'json']);
+
+/**
+ * Flags every command accepts
+ */
+const COMMON_FLAGS = [
+  'api-url',
+  'api-key',
+  'proxy',
+  'ca-file',
+  'cert-file',
+  'key-file',
+  'config',
+  'verbose',
+  'help',
+];
+
+const ATTACHMENT_TYPES = ['screenshot', 'video', 'trace', 'other'];
+
+const commands: Record<string, Command> = {
+  replay: { run: replayCommand, flags: [] },
+  import: {
+    run: importCommand,
+    flags: ['project-id', 'test-run-id', 'test-run-name', 'description', 'environment', 'dry-run'],
+  },
+  'create-run': {
+    run: createRunCommand,
+    flags: ['project-id', 'test-run-name', 'description', 'environment'],
+  },
+  'complete-run': { run: completeRunCommand, flags: ['test-run-id', 'status'] },
+  'upload-attachment': {
+    run: uploadAttachmentCommand,
+    flags: ['test-result-id', 'name', 'content-type', 'type'],
+  },
+  status: { run: statusCommand, flags: ['test-run-id', 'json'] },
+};
+
+/**
+ * Upload every run stored in a spool directory
+ */
+async function replayCommand(args: CliArgs): Promise<number> {
+  const spoolDir = args.positionals[0];
+  if (!spoolDir) {
+    throw new Error('replay: missing <spoolDir> argument');
+  }
+
+  const outcomes = await replaySpool({
+    ...getConnectionOptions(args),
+    spoolDir,
+    verbose: args.flags.verbose === true,
+  });
+
+  if (outcomes.length === 0) {
+    console.log(`No spooled runs found in ${spoolDir}`);
+    return 0;
+  }
+
+  let exitCode = 0;
+  for (const outcome of outcomes) {
+    const run = outcome.testRunId ? ` (test run ${outcome.testRunId})` : '';
+    console.log(`${outcome.entry}${run}: ${outcome.uploaded} uploaded, ${outcome.failed} failed`);
+    if (outcome.error) {
+      console.error(`  Error: ${outcome.error}`);
+    }
+    if (outcome.error || outcome.failed > 0) {
+      exitCode = 1;
+    }
+  }
+
+  return exitCode;
+}
+
+/**
+ * Upload a Playwright report as a test run
+ *
+ * Reporter options from QASTUDIO_* environment variables and the config file
+ * apply, e.g. redaction and console output capture.
+ */
+async function importCommand(args: CliArgs): Promise<number> {
+  const file = args.positionals[0];
+  if (!file) {
+    throw new Error('import: missing <report> argument');
+  }
+
+  const options = resolveReporterOptions(args, {
+    projectId: getStringFlag(args, 'project-id'),
+    testRunId: getStringFlag(args, 'test-run-id'),
+    testRunName: getStringFlag(args, 'test-run-name'),
+    testRunDescription: getStringFlag(args, 'description'),
+    environment: getStringFlag(args, 'environment'),
+    dryRun: args.flags['dry-run'] === true || undefined,
+  });
+
+  const report = readReport(file);
+  const apiClient = options.dryRun
+    ? new RecordingAPIClient(options)
+    : new QAStudioAPIClient(options);
+  const outcome = await uploadReport(report, options, apiClient);
+
+  if (apiClient instanceof RecordingAPIClient) {
+    console.log(`Dry run of ${report.source}, nothing was sent to QAStudio.dev:`);
+    apiClient.describe().forEach((line) => console.log(`  - ${line}`));
+    apiClient.recording.issues.forEach((issue) => console.error(`  Problem: ${issue}`));
+    return apiClient.recording.issues.length > 0 ? 1 : 0;
+  }
+
+  const failedAttachments =
+    outcome.failedAttachments > 0 ? `, ${outcome.failedAttachments} attachment(s) failed` : '';
+  console.log(
+    `${report.source} (test run ${outcome.testRunId}): ${outcome.uploaded} uploaded, ${outcome.failed} failed${failedAttachments}`
+  );
+  outcome.errors.forEach((error) => console.error(`  Error: ${error}`));
+  return outcome.failed > 0 || outcome.failedAttachments > 0 ? 1 : 0;
+}
+
+/**
+ * Create a test run, e.g. once before several Playwright jobs report to it
+ *
+ * Prints only the ID, so it can be captured into QASTUDIO_TEST_RUN_ID.
+ */
+async function createRunCommand(args: CliArgs): Promise<number> {
+  const options = resolveReporterOptions(args, {
+    projectId: getStringFlag(args, 'project-id'),
+    testRunName: getStringFlag(args, 'test-run-name'),
+    testRunDescription: getStringFlag(args, 'description'),
+    environment: getStringFlag(args, 'environment'),
+  });
+
+  const environment = options.environment ?? 'default';
+  const metadata = options.captureCIMetadata !== false ? collectCIMetadata() : undefined;
+  const name =
+    (options.testRunName && renderTestRunName(options.testRunName, metadata ?? {}, environment)) ||
+    generateTestRunName();
+
+  const testRun = await new QAStudioAPIClient(options).createTestRun({
+    projectId: options.projectId,
+    name,
+    description: options.testRunDescription,
+    environment,
+    milestoneId: options.milestoneId,
+    metadata,
+  });
+
+  console.log(testRun.id);
+  return 0;
+}
+
+/**
+ * Complete a test run after every job that reports to it has finished
+ */
+async function completeRunCommand(args: CliArgs): Promise<number> {
+  const testRunId = getTestRunId(args);
+  const apiClient = createAPIClient(args);
+  const status = getStringFlag(args, 'status');
+  if (status !== undefined && !isRunStatus(status)) {
+    throw new Error(
+      `--status must be passed, failed, timedout, interrupted or aborted, got "${status}"`
+    );
+  }
+
+  let completion: RunCompletion;
+  if (args.positionals.length > 0) {
+    const exports = args.positionals.map((file) => {
+      const runExport = readRunExport(file);
+      if (runExport.testRunId && runExport.testRunId !== testRunId) {
+        throw new Error(
+          `${file} was uploaded to test run ${runExport.testRunId}, not ${testRunId}`
+        );
+      }
+      return runExport;
+    });
+    completion = mergeRunExports(exports);
+  } else {
+    const testRun = await apiClient.getTestRun(testRunId);
+    if (!testRun.summary) {
+      throw new Error(
+        `complete-run: no totals available for test run ${testRunId}; pass the outputFile exports of its jobs`
+      );
+    }
+    completion = {
+      status: testRun.summary.failed > 0 ? 'failed' : 'passed',
+      summary: testRun.summary,
+      errors: [],
+    };
+  }
+
+  const finalStatus = status ?? completion.status;
+  await apiClient.completeTestRun({
+    testRunId,
+    status: finalStatus,
+    errored: completion.errors.length > 0,
+    errors: completion.errors.length > 0 ? completion.errors : undefined,
+    summary: completion.summary,
+  });
+
+  const { summary } = completion;
+  console.log(
+    `Completed test run ${testRunId} with status ${finalStatus}: ${summary.total} tests, ${summary.passed} passed, ${summary.failed} failed, ${summary.skipped} skipped`
+  );
+  return 0;
+}
+
+/**
+ * Attach a file to a test result
+ */
+async function uploadAttachmentCommand(args: CliArgs): Promise<number> {
+  const file = args.positionals[0];
+  if (!file) {
+    throw new Error('upload-attachment: missing <file> argument');
+  }
+  const testResultId = getStringFlag(args, 'test-result-id');
+  if (!testResultId) {
+    throw new Error('upload-attachment: --test-result-id is required');
+  }
+  if (!fs.existsSync(file)) {
+    throw new Error(`upload-attachment: file not found: ${file}`);
+  }
+
+  const name = getStringFlag(args, 'name') ?? path.basename(file);
+  const contentType = getStringFlag(args, 'content-type') ?? guessContentType(file);
+  const type = getStringFlag(args, 'type') ?? determineAttachmentType(name, contentType);
+  if (!ATTACHMENT_TYPES.includes(type)) {
+    throw new UsageError(`--type must be screenshot, video, trace or other, got "${type}"`);
+  }
+
+  const { attachment } = await createAPIClient(args).uploadAttachment(
+    testResultId,
+    name,
+    contentType,
+    path.resolve(file),
+    type
+  );
+
+  console.log(
+    `Uploaded ${name} as attachment ${attachment.id}${attachment.url ? `: ${attachment.url}` : ''}`
+  );
+  return 0;
+}
+
+/**
+ * Show the status and totals of a test run
+ */
+async function statusCommand(args: CliArgs): Promise<number> {
+  const testRun = await createAPIClient(args).getTestRun(getTestRunId(args));
+
+  if (args.flags.json === true) {
+    console.log(JSON.stringify(testRun, null, 2));
+    return 0;
+  }
+
+  console.log(`${testRun.name} (${testRun.id}): ${testRun.status}`);
+  if (testRun.summary) {
+    const { summary } = testRun;
+    console.log(
+      `  ${summary.total} tests: ${summary.passed} passed, ${summary.failed} failed, ${summary.skipped} skipped, ${summary.flaky} flaky, ${summary.interrupted} interrupted`
+    );
+  }
+  return 0;
+}
+
+/**
+ * Resolve and validate reporter options from flags, QASTUDIO_* environment
+ * variables and the config file
+ */
+function resolveReporterOptions(
+  args: CliArgs,
+  inline: Partial<QAStudioReporterOptions>
+): QAStudioReporterOptions {
+  const { options, sources } = resolveOptions({
+    ...getConnectionFlags(args),
+    ...inline,
+    verbose: args.flags.verbose === true || undefined,
+  });
+  validateOptions(options, sources);
+  return { ...options, apiUrl: sanitizeUrl(options.apiUrl!) } as QAStudioReporterOptions;
+}
+
+/**
+ * API client for commands that work on an existing test run
+ */
+function createAPIClient(args: CliArgs): QAStudioAPIClient {
+  const { options } = resolveOptions(getConnectionFlags(args));
+  return new QAStudioAPIClient({
+    ...getConnectionOptions(args),
+    projectId: options.projectId ?? '',
+    verbose: args.flags.verbose === true,
+  });
+}
+
+/**
+ * Test run to work on, from --test-run-id, falling back to QASTUDIO_TEST_RUN_ID and
+ * the reporter config file
+ */
+function getTestRunId(args: CliArgs): string {
+  const { options } = resolveOptions({
+    ...getConnectionFlags(args),
+    testRunId: getStringFlag(args, 'test-run-id'),
+  });
+  if (!options.testRunId) {
+    throw new Error(
+      '--test-run-id, QASTUDIO_TEST_RUN_ID or testRunId in the config file is required'
+    );
+  }
+  return options.testRunId;
+}
+
+/**
+ * Read the API connection flags
+ */
+function getConnectionFlags(args: CliArgs): Partial<QAStudioReporterOptions> {
+  return {
+    apiUrl: getStringFlag(args, 'api-url'),
+    apiKey: getStringFlag(args, 'api-key'),
+    proxy: getStringFlag(args, 'proxy'),
+    caFile: getStringFlag(args, 'ca-file'),
+    clientCertFile: getStringFlag(args, 'cert-file'),
+    clientKeyFile: getStringFlag(args, 'key-file'),
+    configFile: getStringFlag(args, 'config'),
+  };
+}
+
+/**
+ * Resolve API connection options from flags, falling back to QASTUDIO_* environment
+ * variables and the reporter config file
+ */
+function getConnectionOptions(
+  args: CliArgs
+): Pick<
+  ReplaySpoolOptions,
+  | 'apiUrl'
+  | 'apiKey'
+  | 'proxy'
+  | 'caFile'
+  | 'clientCertFile'
+  | 'clientKeyFile'
+  | 'clientKeyPassphrase'
+> {
+  const { options, sources } = resolveOptions(getConnectionFlags(args));
+
+  if (!options.apiUrl) {
+    throw new Error('--api-url or QASTUDIO_API_URL is required');
+  }
+  if (!options.apiKey) {
+    throw new Error('--api-key or QASTUDIO_API_KEY is required');
+  }
+
+  let apiUrl: string;
+  try {
+    apiUrl = sanitizeUrl(options.apiUrl);
+  } catch (error) {
+    const source = sources.apiUrl === 'reporter options' ? '--api-url' : sources.apiUrl;
+    throw new Error(`${(error as Error).message} (from ${source})`);
+  }
+
+  return {
+    apiUrl,
+    apiKey: options.apiKey,
+    proxy: options.proxy,
+    caFile: options.caFile,
+    clientCertFile: options.clientCertFile,
+    clientKeyFile: options.clientKeyFile,
+    clientKeyPassphrase: options.clientKeyPassphrase,
+  };
+}
+
+/**
+ * Read a flag that takes a value
+ */
+function getStringFlag(args: CliArgs, name: string): string | undefined {
+  const value = args.flags[name];
+  if (value === true) {
+    throw new Error(`--${name} requires a value`);
+  }
+  return value === false ? undefined : value;
+}
+
+/**
+ * Split argv into positional arguments and `--flag [value]` / `--flag=value` flags
+ */
+function parseArgs(argv: string[]): CliArgs {
+  const positionals: string[] = [];
+  const flags: Record<string, string | boolean> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+
+    if (arg === '-h') {
+      flags.help = true;
+    } else if (arg.startsWith('--')) {
+      const [name, inlineValue] = arg.slice(2).split(/=(.*)/s, 2);
+      if (inlineValue !== undefined) {
+        flags[name] = inlineValue;
+      } else if (!BOOLEAN_FLAGS.has(name) && i + 1 < argv.length && !argv[i + 1].startsWith('-')) {
+        flags[name] = argv[++i];
+      } else {
+        flags[name] = true;
+      }
+    } else {
+      positionals.push(arg);
+    }
+  }
+
+  return { positionals, flags };
+}
+
+/**
+ * Print a command line error followed by the help text
+ *
+ * @returns Exit code
+ */
+function printUsageError(message: string): number {
+  console.error(`${message}\n`);
+  console.error(USAGE);
+  return 1;
+}
+
+/**
+ * Run a command line
+ *
+ * @param argv - Arguments after the executable, starting with the command name
+ * @returns Exit code
+ */
+export async function main(argv: string[]): Promise<number> {
+  const [commandName, ...rest] = argv;
+  const args = parseArgs(rest);
+
+  if (!commandName || commandName === '-h' || commandName === '--help' || args.flags.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const command = commands[commandName];
+  if (!command) {
+    return printUsageError(`Unknown command: ${commandName}`);
+  }
+
+  const unknownFlag = Object.keys(args.flags).find(
+    (flag) => !COMMON_FLAGS.includes(flag) && !command.flags.includes(flag)
+  );
+  if (unknownFlag) {
+    return printUsageError(`Unknown option for ${commandName}: --${unknownFlag}`);
+  }
+
+  try {
+    return await command.run(args);
+  } catch (error) {
+    if (error instanceof UsageError) {
+      return printUsageError(error.message);
+    }
+    throw error;
+  }
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2))
+    .then((exitCode) => {
+      process.exitCode = exitCode;
+    })
+    .catch((error: unknown) => {
+      console.error(
+        `[QAStudio.dev Reporter] ${error instanceof Error ? error.message : String(error)}`
+      );
+      process.exitCode = 1;
+    });
+}
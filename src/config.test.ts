@@ -0,0 +1,215 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { findConfigFile, readEnvOptions, resolveOptions } from './config';
+import { validateOptions } from './utils';
+
+describe('readEnvOptions', () => {
+  it('should map QASTUDIO_* variables to options', () => {
+    expect(
+      readEnvOptions({
+        QASTUDIO_API_URL: 'https://qastudio.dev/api',
+        QASTUDIO_PROJECT_ID: 'project',
+        QASTUDIO_BATCH_SIZE: '25',
+        QASTUDIO_VERBOSE: '1',
+        QASTUDIO_SILENT: 'false',
+        UNRELATED: 'x',
+      })
+    ).toEqual({
+      apiUrl: 'https://qastudio.dev/api',
+      projectId: 'project',
+      batchSize: 25,
+      verbose: true,
+      silent: false,
+    });
+  });
+
+  it('should accept booleans and policy names for QASTUDIO_INCLUDE_CONSOLE_OUTPUT', () => {
+    const parse = (value: string) =>
+      readEnvOptions({ QASTUDIO_INCLUDE_CONSOLE_OUTPUT: value }).includeConsoleOutput;
+
+    expect(parse('true')).toBe(true);
+    expect(parse('1')).toBe(true);
+    expect(parse('No')).toBe(false);
+    expect(parse('on-failure')).toBe('on-failure');
+
+    const options = {
+      apiUrl: 'https://qastudio.dev/api',
+      apiKey: 'key',
+      projectId: 'project',
+      ...readEnvOptions({ QASTUDIO_INCLUDE_CONSOLE_OUTPUT: 'true' }),
+    };
+    expect(() => validateOptions(options)).not.toThrow();
+  });
+
+  it('should turn proxying off with QASTUDIO_PROXY=false', () => {
+    expect(readEnvOptions({ QASTUDIO_PROXY: 'false' }).proxy).toBe(false);
+    expect(readEnvOptions({ QASTUDIO_PROXY: 'http://proxy.corp:3128' }).proxy).toBe(
+      'http://proxy.corp:3128'
+    );
+  });
+
+  it('should read the batching and concurrency limits', () => {
+    expect(
+      readEnvOptions({
+        QASTUDIO_BATCH_FLUSH_INTERVAL: '0',
+        QASTUDIO_MAX_CONCURRENT_REQUESTS: '8',
+        QASTUDIO_MAX_CONCURRENT_UPLOADS: '1',
+      })
+    ).toEqual({ batchFlushInterval: 0, maxConcurrentRequests: 8, maxConcurrentUploads: 1 });
+  });
+
+  it('should ignore empty variables', () => {
+    expect(readEnvOptions({ QASTUDIO_API_KEY: '' })).toEqual({});
+  });
+
+  it('should name the variable when a value cannot be parsed', () => {
+    expect(() => readEnvOptions({ QASTUDIO_TIMEOUT: 'soon' })).toThrow(
+      /QASTUDIO_TIMEOUT must be a number, got "soon"/
+    );
+    expect(() => readEnvOptions({ QASTUDIO_VERBOSE: 'maybe' })).toThrow(
+      /QASTUDIO_VERBOSE must be true or false/
+    );
+  });
+});
+
+describe('resolveOptions', () => {
+  let cwd: string;
+
+  beforeEach(() => {
+    cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'qastudio-config-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(cwd, { recursive: true, force: true });
+  });
+
+  it('should prefer inline options over env variables over the config file', () => {
+    fs.writeFileSync(
+      path.join(cwd, 'qastudio.config.json'),
+      JSON.stringify({ apiUrl: 'https://file/api', apiKey: 'file-key', projectId: 'file-project' })
+    );
+
+    const { options, sources } = resolveOptions(
+      { projectId: 'inline-project' },
+      { QASTUDIO_API_KEY: 'env-key', QASTUDIO_PROJECT_ID: 'env-project' },
+      cwd
+    );
+
+    expect(options).toMatchObject({
+      apiUrl: 'https://file/api',
+      apiKey: 'env-key',
+      projectId: 'inline-project',
+    });
+    expect(sources).toEqual({
+      apiUrl: `config file ${path.join(cwd, 'qastudio.config.json')}`,
+      apiKey: 'environment variable QASTUDIO_API_KEY',
+      projectId: 'reporter options',
+    });
+  });
+
+  it('should not let undefined inline options hide other sources', () => {
+    const { options } = resolveOptions({ apiKey: undefined }, { QASTUDIO_API_KEY: 'env-key' }, cwd);
+    expect(options.apiKey).toBe('env-key');
+  });
+
+  it('should load a JavaScript config file given by QASTUDIO_CONFIG', () => {
+    fs.mkdirSync(path.join(cwd, 'config'));
+    fs.writeFileSync(
+      path.join(cwd, 'config', 'qastudio.js'),
+      "module.exports = { environment: 'staging' };"
+    );
+
+    const { options } = resolveOptions({}, { QASTUDIO_CONFIG: 'config/qastudio.js' }, cwd);
+    expect(options.environment).toBe('staging');
+  });
+
+  it('should report invalid config files', () => {
+    fs.writeFileSync(path.join(cwd, 'qastudio.config.json'), '{ not json');
+    expect(() => resolveOptions({}, {}, cwd)).toThrow(/failed to load config file/);
+
+    fs.writeFileSync(path.join(cwd, 'qastudio.config.json'), '[]');
+    expect(() => resolveOptions({}, {}, cwd)).toThrow(/must export an options object/);
+  });
+});
+
+describe('findConfigFile', () => {
+  it('should throw when an explicit config file does not exist', () => {
+    expect(() => findConfigFile('missing.json', os.tmpdir())).toThrow(/config file not found/);
+  });
+
+  it('should return undefined when no config file exists', () => {
+    const cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'qastudio-config-'));
+    try {
+      expect(findConfigFile(undefined, cwd)).toBeUndefined();
+    } finally {
+      fs.rmSync(cwd, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('validateOptions with option sources', () => {
+  const validOptions = {
+    apiUrl: 'https://qastudio.dev/api',
+    apiKey: 'test-key',
+    projectId: 'test-project',
+  };
+
+  it('should name the source of an invalid value', () => {
+    expect(() =>
+      validateOptions(
+        { ...validOptions, apiUrl: 'not-a-url' },
+        { apiUrl: 'environment variable QASTUDIO_API_URL' }
+      )
+    ).toThrow(/Invalid URL format.*\(from environment variable QASTUDIO_API_URL\)/);
+
+    expect(() =>
+      validateOptions(
+        { ...validOptions, uploadTraces: 'sometimes' },
+        { uploadTraces: 'config file qastudio.config.json' }
+      )
+    ).toThrow(/uploadTraces must be .* \(from config file qastudio.config.json\)/);
+  });
+
+  it('should point to the environment variable for missing required options', () => {
+    expect(() => validateOptions({ ...validOptions, apiKey: undefined })).toThrow(
+      /apiKey is required.*QASTUDIO_API_KEY/
+    );
+  });
+
+  it('should reject negative numbers', () => {
+    expect(() => validateOptions({ ...validOptions, batchSize: -1 })).toThrow(
+      /batchSize must be a non-negative number/
+    );
+  });
+
+  it('should reject an empty batch size', () => {
+    expect(() => validateOptions({ ...validOptions, batchSize: 0 })).toThrow(
+      /batchSize must be at least 1, got 0/
+    );
+  });
+
+  it('should check the batching and concurrency limits', () => {
+    expect(() => validateOptions({ ...validOptions, batchFlushInterval: -5 })).toThrow(
+      /batchFlushInterval must be a non-negative number/
+    );
+    expect(() =>
+      validateOptions(
+        { ...validOptions, maxConcurrentUploads: 0 },
+        { maxConcurrentUploads: 'environment variable QASTUDIO_MAX_CONCURRENT_UPLOADS' }
+      )
+    ).toThrow(/maxConcurrentUploads must be at least 1, got 0 \(from environment variable/);
+    expect(() => validateOptions({ ...validOptions, maxConcurrentRequests: 'many' })).toThrow(
+      /maxConcurrentRequests must be a non-negative number/
+    );
+    expect(() => validateOptions({ ...validOptions, batchFlushInterval: 0 })).not.toThrow();
+  });
+
+  it('should only accept a URL or false as the proxy', () => {
+    expect(() => validateOptions({ ...validOptions, proxy: true })).toThrow(
+      /proxy must be a URL or false, got true/
+    );
+    expect(() => validateOptions({ ...validOptions, proxy: false })).not.toThrow();
+  });
+});
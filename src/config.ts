@@ -0,0 +1,215 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { OptionSources, QAStudioReporterOptions, ResolvedOptions } from './types';
+
+/**
+ * Config file names looked up in the working directory, in order
+ */
+export const CONFIG_FILE_NAMES = [
+  'qastudio.config.ts',
+  'qastudio.config.js',
+  'qastudio.config.cjs',
+  'qastudio.config.json',
+];
+
+/**
+ * How an environment variable is parsed; `boolean-or-string` is for options that
+ * take either a boolean or a string, e.g. `includeConsoleOutput` or `proxy`
+ */
+type EnvOptionType = 'string' | 'number' | 'boolean' | 'boolean-or-string';
+
+/**
+ * Environment variables read by the reporter, with the option each one sets
+ */
+export const ENV_OPTIONS: ReadonlyArray<{
+  name: string;
+  option: keyof QAStudioReporterOptions;
+  type: EnvOptionType;
+}> = [
+  { name: 'QASTUDIO_API_URL', option: 'apiUrl', type: 'string' },
+  { name: 'QASTUDIO_API_KEY', option: 'apiKey', type: 'string' },
+  { name: 'QASTUDIO_PROJECT_ID', option: 'projectId', type: 'string' },
+  { name: 'QASTUDIO_TEST_RUN_ID', option: 'testRunId', type: 'string' },
+  { name: 'QASTUDIO_TEST_RUN_NAME', option: 'testRunName', type: 'string' },
+  { name: 'QASTUDIO_TEST_RUN_DESCRIPTION', option: 'testRunDescription', type: 'string' },
+  { name: 'QASTUDIO_ENVIRONMENT', option: 'environment', type: 'string' },
+  { name: 'QASTUDIO_MILESTONE_ID', option: 'milestoneId', type: 'string' },
+  { name: 'QASTUDIO_CREATE_TEST_RUN', option: 'createTestRun', type: 'boolean' },
+  { name: 'QASTUDIO_COMPLETE_TEST_RUN', option: 'completeTestRun', type: 'boolean' },
+  { name: 'QASTUDIO_CAPTURE_CI_METADATA', option: 'captureCIMetadata', type: 'boolean' },
+  { name: 'QASTUDIO_HANDLE_SIGNALS', option: 'handleSignals', type: 'boolean' },
+  { name: 'QASTUDIO_LIVE_EVENTS', option: 'liveEvents', type: 'boolean' },
+  { name: 'QASTUDIO_HEARTBEAT_INTERVAL', option: 'heartbeatInterval', type: 'number' },
+  { name: 'QASTUDIO_REPORT_PLANNED_TESTS', option: 'reportPlannedTests', type: 'boolean' },
+  { name: 'QASTUDIO_SYNC_TEST_CASES', option: 'syncTestCases', type: 'boolean' },
+  { name: 'QASTUDIO_TEST_CASE_MAPPING_FILE', option: 'testCaseMappingFile', type: 'string' },
+  { name: 'QASTUDIO_TEST_CASE_ID_PATTERN', option: 'testCaseIdPattern', type: 'string' },
+  {
+    name: 'QASTUDIO_STRIP_TEST_CASE_ID_FROM_TITLE',
+    option: 'stripTestCaseIdFromTitle',
+    type: 'boolean',
+  },
+  {
+    name: 'QASTUDIO_INCLUDE_CONSOLE_OUTPUT',
+    option: 'includeConsoleOutput',
+    type: 'boolean-or-string',
+  },
+  { name: 'QASTUDIO_MAX_CONSOLE_OUTPUT_BYTES', option: 'maxConsoleOutputBytes', type: 'number' },
+  { name: 'QASTUDIO_DRY_RUN', option: 'dryRun', type: 'boolean' },
+  { name: 'QASTUDIO_VERBOSE', option: 'verbose', type: 'boolean' },
+  { name: 'QASTUDIO_SILENT', option: 'silent', type: 'boolean' },
+  { name: 'QASTUDIO_BATCH_SIZE', option: 'batchSize', type: 'number' },
+  { name: 'QASTUDIO_BATCH_FLUSH_INTERVAL', option: 'batchFlushInterval', type: 'number' },
+  { name: 'QASTUDIO_MAX_RETRIES', option: 'maxRetries', type: 'number' },
+  { name: 'QASTUDIO_TIMEOUT', option: 'timeout', type: 'number' },
+  { name: 'QASTUDIO_MAX_CONCURRENT_REQUESTS', option: 'maxConcurrentRequests', type: 'number' },
+  { name: 'QASTUDIO_MAX_CONCURRENT_UPLOADS', option: 'maxConcurrentUploads', type: 'number' },
+  { name: 'QASTUDIO_UPLOAD_TRACES', option: 'uploadTraces', type: 'string' },
+  { name: 'QASTUDIO_MERGE_SHARDS', option: 'mergeShards', type: 'boolean' },
+  { name: 'QASTUDIO_SHARD_RUN_KEY', option: 'shardRunKey', type: 'string' },
+  { name: 'QASTUDIO_SPOOL_DIR', option: 'spoolDir', type: 'string' },
+  { name: 'QASTUDIO_OUTPUT_FILE', option: 'outputFile', type: 'string' },
+  { name: 'QASTUDIO_JUNIT_OUTPUT_FILE', option: 'junitOutputFile', type: 'string' },
+  { name: 'QASTUDIO_PROXY', option: 'proxy', type: 'boolean-or-string' },
+  { name: 'QASTUDIO_CA_FILE', option: 'caFile', type: 'string' },
+  { name: 'QASTUDIO_CLIENT_CERT_FILE', option: 'clientCertFile', type: 'string' },
+  { name: 'QASTUDIO_CLIENT_KEY_FILE', option: 'clientKeyFile', type: 'string' },
+  { name: 'QASTUDIO_CLIENT_KEY_PASSPHRASE', option: 'clientKeyPassphrase', type: 'string' },
+];
+
+/**
+ * Resolve reporter options from all configuration sources
+ *
+ * Precedence, highest first:
+ * 1. Options passed to the reporter in playwright.config.ts
+ * 2. QASTUDIO_* environment variables
+ * 3. The config file (`configFile` option, QASTUDIO_CONFIG, or qastudio.config.* in cwd)
+ */
+export function resolveOptions(
+  inline: Partial<QAStudioReporterOptions> = {},
+  env: NodeJS.ProcessEnv = process.env,
+  cwd: string = process.cwd()
+): ResolvedOptions {
+  const options: Partial<QAStudioReporterOptions> = {};
+  const sources: OptionSources = {};
+
+  const apply = (values: Partial<QAStudioReporterOptions>, source: (key: string) => string) => {
+    for (const [key, value] of Object.entries(values)) {
+      if (value !== undefined) {
+        (options as Record<string, unknown>)[key] = value;
+        sources[key as keyof QAStudioReporterOptions] = source(key);
+      }
+    }
+  };
+
+  const configFile = findConfigFile(inline.configFile ?? env.QASTUDIO_CONFIG, cwd);
+  if (configFile) {
+    apply(loadConfigFile(configFile), () => `config file ${configFile}`);
+  }
+
+  const envValues = readEnvOptions(env);
+  const envNames = new Map(ENV_OPTIONS.map((entry) => [entry.option as string, entry.name]));
+  apply(envValues, (key) => `environment variable ${envNames.get(key)}`);
+
+  apply(inline, () => 'reporter options');
+
+  return { options, sources };
+}
+
+/**
+ * Read reporter options from QASTUDIO_* environment variables
+ */
+export function readEnvOptions(
+  env: NodeJS.ProcessEnv = process.env
+): Partial<QAStudioReporterOptions> {
+  const options: Record<string, unknown> = {};
+
+  for (const { name, option, type } of ENV_OPTIONS) {
+    const raw = env[name];
+    if (raw === undefined || raw === '') {
+      continue;
+    }
+    options[option] = parseEnvValue(name, raw, type);
+  }
+
+  return options as Partial<QAStudioReporterOptions>;
+}
+
+/**
+ * Locate the config file: an explicit path, or the first qastudio.config.* in cwd
+ */
+export function findConfigFile(explicitPath: string | undefined, cwd: string): string | undefined {
+  if (explicitPath) {
+    const resolved = path.resolve(cwd, explicitPath);
+    if (!fs.existsSync(resolved)) {
+      throw new Error(`QAStudio.dev reporter: config file not found: ${resolved}`);
+    }
+    return resolved;
+  }
+
+  return CONFIG_FILE_NAMES.map((name) => path.join(cwd, name)).find((file) => fs.existsSync(file));
+}
+
+/**
+ * Load options from a JSON, JavaScript or TypeScript config file
+ *
+ * TypeScript files can be loaded when running under Playwright, which registers
+ * its TypeScript loader for config files.
+ */
+export function loadConfigFile(file: string): Partial<QAStudioReporterOptions> {
+  let loaded: unknown;
+
+  try {
+    if (file.endsWith('.json')) {
+      loaded = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    } else {
+      const module = require(file) as { default?: unknown };
+      loaded =
+        module && typeof module === 'object' && 'default' in module ? module.default : module;
+    }
+  } catch (error) {
+    throw new Error(
+      `QAStudio.dev reporter: failed to load config file ${file}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  if (!loaded || typeof loaded !== 'object' || Array.isArray(loaded)) {
+    throw new Error(`QAStudio.dev reporter: config file ${file} must export an options object`);
+  }
+
+  return loaded as Partial<QAStudioReporterOptions>;
+}
+
+/**
+ * Parse an environment variable value into the type of the option it sets
+ */
+function parseEnvValue(name: string, raw: string, type: EnvOptionType): string | number | boolean {
+  const value = raw.trim();
+
+  if (type === 'number') {
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed)) {
+      throw new Error(
+        `QAStudio.dev reporter: environment variable ${name} must be a number, got "${raw}"`
+      );
+    }
+    return parsed;
+  }
+
+  if (type === 'boolean' || type === 'boolean-or-string') {
+    if (/^(true|1|yes)$/i.test(value)) {
+      return true;
+    }
+    if (/^(false|0|no)$/i.test(value)) {
+      return false;
+    }
+  }
+
+  if (type === 'boolean') {
+    throw new Error(
+      `QAStudio.dev reporter: environment variable ${name} must be true or false, got "${raw}"`
+    );
+  }
+
+  return value;
+}
@@ -0,0 +1,177 @@
+import { describe, it, expect } from 'vitest';
+import type { TestCase, TestResult } from '@playwright/test/reporter';
+import {
+  ConsoleBuffer,
+  ConsoleRecorder,
+  buildConsoleOutput,
+  formatConsoleOutput,
+  removeAnsiCodes,
+  shouldCaptureConsole,
+  truncateMiddle,
+} from './console-output';
+import { Redactor, getRedactionRules } from './redaction';
+import type { QAStudioReporterOptions } from './types';
+
+const test = { id: 't1', expectedStatus: 'passed' } as unknown as TestCase;
+const makeResult = (status: string, stdout: string[] = [], retry = 0) =>
+  ({ status, retry, stdout, stderr: [] }) as unknown as TestResult;
+const options = {
+  apiUrl: 'https://qastudio.dev/api',
+  apiKey: 'key-1234567890',
+  projectId: 'p1',
+} as QAStudioReporterOptions;
+const format = {
+  maxBytes: 0,
+  stripAnsi: true,
+  timestamps: true,
+};
+
+describe('shouldCaptureConsole', () => {
+  it('should apply the capture policy', () => {
+    expect(shouldCaptureConsole('never', test, makeResult('failed'))).toBe(false);
+    expect(shouldCaptureConsole('always', test, makeResult('passed'))).toBe(true);
+    expect(shouldCaptureConsole('on-failure', test, makeResult('passed'))).toBe(false);
+    expect(shouldCaptureConsole('on-failure', test, makeResult('timedOut'))).toBe(true);
+  });
+
+  it('should not treat expected failures as failures', () => {
+    const expectedToFail = { ...test, expectedStatus: 'failed' } as unknown as TestCase;
+    expect(shouldCaptureConsole('on-failure', expectedToFail, makeResult('failed'))).toBe(false);
+  });
+});
+
+describe('formatConsoleOutput', () => {
+  it('should timestamp every line, including lines split across chunks', () => {
+    const first = new Date('2025-01-01T00:00:00.000Z');
+    const second = new Date('2025-01-01T00:00:01.000Z');
+
+    const { text } = formatConsoleOutput(
+      [
+        { text: 'one\ntw', time: first },
+        { text: 'o\nthree\n', time: second },
+      ],
+      format
+    );
+
+    expect(text).toBe(
+      '[2025-01-01T00:00:00.000Z] one\n' +
+        '[2025-01-01T00:00:00.000Z] two\n' +
+        '[2025-01-01T00:00:01.000Z] three'
+    );
+  });
+
+  it('should strip ANSI codes without warning and redact secrets', () => {
+    const { text } = formatConsoleOutput([{ text: '\x1b[31mtoken=s3cr3t-value\x1b[0m\n' }], {
+      ...format,
+      redact: (value) => value.replace('s3cr3t-value', '***'),
+    });
+
+    expect(text).toBe('token=***');
+  });
+
+  it('should keep ANSI codes when stripping is disabled', () => {
+    const { text } = formatConsoleOutput([{ text: '\x1b[32mok\x1b[0m' }], {
+      ...format,
+      stripAnsi: false,
+    });
+
+    expect(text).toBe('\x1b[32mok\x1b[0m');
+  });
+
+  it('should return no text for empty output', () => {
+    expect(formatConsoleOutput([{ text: '  \n' }], format)).toEqual({ truncated: false });
+  });
+});
+
+describe('truncateMiddle', () => {
+  it('should keep the head and tail of long text', () => {
+    const result = truncateMiddle('a'.repeat(10) + 'b'.repeat(10), 10);
+
+    expect(result).toEqual({
+      text: 'aaaaa\n... [10 bytes truncated] ...\nbbbbb',
+      truncated: true,
+    });
+  });
+
+  it('should leave short text and a limit of 0 alone', () => {
+    expect(truncateMiddle('short', 10)).toEqual({ text: 'short', truncated: false });
+    expect(truncateMiddle('x'.repeat(100), 0).truncated).toBe(false);
+  });
+
+  it('should not split multi-byte characters', () => {
+    const { text } = truncateMiddle('é'.repeat(10), 5);
+
+    expect(text).not.toContain('�');
+  });
+});
+
+describe('removeAnsiCodes', () => {
+  it('should keep surrounding whitespace', () => {
+    expect(removeAnsiCodes('  \x1b[1;31mred\x1b[0m\n')).toBe('  red\n');
+  });
+});
+
+describe('ConsoleBuffer', () => {
+  it('should keep the first and last chunks within its budget', () => {
+    const buffer = new ConsoleBuffer(10);
+    for (const text of ['aa', 'bb', 'cc', 'dd', 'ee', 'ff']) {
+      buffer.write({ text });
+    }
+
+    expect(buffer.chunks().map((chunk) => chunk.text)).toEqual(['aa', 'bb', 'ee', 'ff']);
+  });
+});
+
+describe('ConsoleRecorder', () => {
+  it('should keep output of each attempt separate', () => {
+    const recorder = new ConsoleRecorder(1000);
+    recorder.write('stdout', 'first attempt\n', test, makeResult('failed', [], 0));
+    recorder.write('stderr', Buffer.from('retry\n'), test, makeResult('passed', [], 1));
+
+    const retry = recorder.take(test, makeResult('passed', [], 1));
+
+    expect(retry?.stdout).toEqual([]);
+    expect(retry?.stderr.map((chunk) => chunk.text)).toEqual(['retry\n']);
+    expect(recorder.take(test, makeResult('passed', [], 1))).toBeUndefined();
+  });
+});
+
+describe('buildConsoleOutput', () => {
+  it('should use the result output when nothing was recorded', () => {
+    const output = buildConsoleOutput(
+      test,
+      makeResult('failed', ['using key-1234567890', 'done']),
+      { ...options, includeConsoleOutput: 'on-failure' },
+      undefined,
+      new Redactor(getRedactionRules(options))
+    );
+
+    expect(output).toEqual({
+      stdout: 'using [REDACTED]\ndone',
+      stderr: undefined,
+      truncated: undefined,
+    });
+  });
+
+  it('should treat true as always and false as never', () => {
+    const result = makeResult('passed', ['hello']);
+
+    expect(buildConsoleOutput(test, result, { ...options, includeConsoleOutput: true })).toEqual(
+      expect.objectContaining({ stdout: 'hello' })
+    );
+    expect(
+      buildConsoleOutput(test, result, { ...options, includeConsoleOutput: false })
+    ).toBeUndefined();
+    expect(buildConsoleOutput(test, result, options)).toBeUndefined();
+  });
+
+  it('should flag truncated output', () => {
+    const output = buildConsoleOutput(test, makeResult('passed', ['x'.repeat(100)]), {
+      ...options,
+      includeConsoleOutput: 'always',
+      maxConsoleOutputBytes: 20,
+    });
+
+    expect(output?.truncated).toBe(true);
+  });
+});
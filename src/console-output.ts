@@ -0,0 +1,302 @@
+import type { TestCase, TestResult } from '@playwright/test/reporter';
+import type { Redactor } from './redaction';
+import type { ConsoleOutputPolicy, QAStudioReporterOptions, QAStudioTestResult } from './types';
+
+/**
+ * A chunk written to stdout or stderr, with the time it was written
+ */
+export interface ConsoleChunk {
+  text: string;
+  time?: Date;
+}
+
+/**
+ * How captured output is turned into the text sent with a result
+ */
+export interface ConsoleFormatOptions {
+  /**
+   * Maximum size (bytes) of each stream; longer output keeps its head and tail
+   */
+  maxBytes: number;
+  stripAnsi: boolean;
+  timestamps: boolean;
+  /**
+   * Masks secrets; applied before truncation so a secret is never cut in half
+   */
+  redact?: (text: string) => string;
+}
+
+/**
+ * Default size limit (bytes) of each captured stream
+ */
+export const DEFAULT_MAX_CONSOLE_OUTPUT_BYTES = 64 * 1024;
+
+/**
+ * Remove ANSI escape sequences and bare color codes (e.g. `[31m`) from a string
+ */
+export function removeAnsiCodes(str: string): string {
+  return (
+    str
+      // Remove ANSI escape sequences (e.g., \x1b[31m, \x1b[0m)
+      .replace(/\x1b\[[0-9;]*[a-zA-Z]/g, '')
+      // Remove bracket codes (e.g., [31m, [0m)
+      .replace(/\[\d+m/g, '')
+      // Remove multi-digit bracket codes (e.g., [1;31m)
+      .replace(/\[\d+;\d+m/g, '')
+  );
+}
+
+/**
+ * Resolve the console capture policy from the `includeConsoleOutput` option
+ *
+ * `true` and `false` are the original boolean form of the option and map to
+ * `always` and `never`.
+ */
+export function getConsoleOutputPolicy(options?: QAStudioReporterOptions): ConsoleOutputPolicy {
+  const value = options?.includeConsoleOutput;
+  if (value === true) {
+    return 'always';
+  }
+  return value || 'never';
+}
+
+/**
+ * Whether output of this attempt should be sent under the given policy
+ *
+ * `on-failure` sends output for attempts that did not end with the expected
+ * status, so `test.fail()` tests that fail as expected don't count as failures.
+ */
+export function shouldCaptureConsole(
+  policy: ConsoleOutputPolicy,
+  test: TestCase,
+  result: TestResult
+): boolean {
+  if (policy === 'always') {
+    return true;
+  }
+  if (policy === 'on-failure') {
+    return result.status !== test.expectedStatus;
+  }
+  return false;
+}
+
+/**
+ * Keeps the head and tail of one output stream within a byte budget
+ *
+ * Output past the budget is dropped from the middle while it is written, so a
+ * noisy test never holds more than `maxBytes` in memory.
+ */
+export class ConsoleBuffer {
+  private readonly head: ConsoleChunk[] = [];
+  private readonly tail: ConsoleChunk[] = [];
+  private headBytes = 0;
+  private tailBytes = 0;
+
+  constructor(private readonly maxBytes: number) {}
+
+  /**
+   * Append a chunk
+   */
+  write(chunk: ConsoleChunk): void {
+    const bytes = Buffer.byteLength(chunk.text);
+    const half = Math.floor(this.maxBytes / 2);
+
+    if (this.tail.length === 0 && this.headBytes + bytes <= half) {
+      this.head.push(chunk);
+      this.headBytes += bytes;
+      return;
+    }
+
+    this.tail.push(chunk);
+    this.tailBytes += bytes;
+    while (this.tailBytes > this.maxBytes - half && this.tail.length > 1) {
+      this.tailBytes -= Buffer.byteLength(this.tail.shift()!.text);
+    }
+  }
+
+  /**
+   * Buffered chunks, with the head first
+   */
+  chunks(): ConsoleChunk[] {
+    return [...this.head, ...this.tail];
+  }
+}
+
+/**
+ * Collects stdout/stderr of running tests from onStdOut/onStdErr
+ *
+ * Output is kept per test attempt, so retries don't mix their output.
+ */
+export class ConsoleRecorder {
+  private readonly attempts = new Map<string, { stdout: ConsoleBuffer; stderr: ConsoleBuffer }>();
+
+  /**
+   * @param maxBytes - Budget of each stream; the formatted output is truncated to
+   * the same size, the buffers only keep memory bounded
+   */
+  constructor(private readonly maxBytes: number) {}
+
+  /**
+   * Record a chunk written by a test
+   */
+  write(
+    stream: 'stdout' | 'stderr',
+    chunk: string | Buffer,
+    test: TestCase,
+    result: TestResult
+  ): void {
+    const key = this.key(test, result);
+    let attempt = this.attempts.get(key);
+    if (!attempt) {
+      // Keep a little more than the budget, as formatting adds timestamps and masks
+      const budget = this.maxBytes > 0 ? this.maxBytes * 2 : Number.MAX_SAFE_INTEGER;
+      attempt = { stdout: new ConsoleBuffer(budget), stderr: new ConsoleBuffer(budget) };
+      this.attempts.set(key, attempt);
+    }
+
+    attempt[stream].write({
+      text: typeof chunk === 'string' ? chunk : chunk.toString('utf-8'),
+      time: new Date(),
+    });
+  }
+
+  /**
+   * Remove and return the recorded output of a finished attempt
+   */
+  take(
+    test: TestCase,
+    result: TestResult
+  ): { stdout: ConsoleChunk[]; stderr: ConsoleChunk[] } | undefined {
+    const key = this.key(test, result);
+    const attempt = this.attempts.get(key);
+    this.attempts.delete(key);
+    return attempt && { stdout: attempt.stdout.chunks(), stderr: attempt.stderr.chunks() };
+  }
+
+  /**
+   * Key of a test attempt
+   */
+  private key(test: TestCase, result: TestResult): string {
+    return `${test.id}#${result.retry}`;
+  }
+}
+
+/**
+ * Turn captured chunks into the text sent with a result
+ *
+ * Timestamps are added at the start of every line, then ANSI codes are
+ * removed and secrets redacted before the text is truncated.
+ *
+ * @returns The text (undefined if there was no output) and whether it was truncated
+ */
+export function formatConsoleOutput(
+  chunks: ConsoleChunk[],
+  options: ConsoleFormatOptions
+): { text?: string; truncated: boolean } {
+  let text = '';
+  let atLineStart = true;
+
+  for (const chunk of chunks) {
+    const stamp = options.timestamps && chunk.time ? `[${chunk.time.toISOString()}] ` : '';
+    for (const line of chunk.text.split(/(?<=\n)/)) {
+      text += atLineStart ? stamp + line : line;
+      atLineStart = line.endsWith('\n');
+    }
+  }
+
+  if (options.stripAnsi) {
+    text = removeAnsiCodes(text);
+  }
+  if (options.redact) {
+    text = options.redact(text);
+  }
+  text = text.trim();
+  if (!text) {
+    return { truncated: false };
+  }
+
+  return truncateMiddle(text, options.maxBytes);
+}
+
+/**
+ * Build the console output of a result according to the capture options
+ *
+ * @param recorded - Output recorded through onStdOut/onStdErr; without it the
+ * `stdout`/`stderr` arrays of the result are used, without timestamps
+ * @param redactor - Redacts secrets before the output is truncated
+ */
+export function buildConsoleOutput(
+  test: TestCase,
+  result: TestResult,
+  options?: QAStudioReporterOptions,
+  recorded?: { stdout: ConsoleChunk[]; stderr: ConsoleChunk[] },
+  redactor?: Redactor
+): QAStudioTestResult['consoleOutput'] {
+  if (!shouldCaptureConsole(getConsoleOutputPolicy(options), test, result)) {
+    return undefined;
+  }
+
+  const formatOptions: ConsoleFormatOptions = {
+    maxBytes: options?.maxConsoleOutputBytes ?? DEFAULT_MAX_CONSOLE_OUTPUT_BYTES,
+    stripAnsi: options?.stripConsoleAnsi !== false, // default true
+    timestamps: options?.consoleTimestamps !== false, // default true
+    redact: redactor && ((text) => redactor.redact(text)),
+  };
+  const stdout = formatConsoleOutput(
+    recorded?.stdout ?? chunksFromResult(result.stdout),
+    formatOptions
+  );
+  const stderr = formatConsoleOutput(
+    recorded?.stderr ?? chunksFromResult(result.stderr),
+    formatOptions
+  );
+
+  if (!stdout.text && !stderr.text) {
+    return undefined;
+  }
+
+  return {
+    stdout: stdout.text,
+    stderr: stderr.text,
+    truncated: stdout.truncated || stderr.truncated || undefined,
+  };
+}
+
+/**
+ * Convert the `stdout`/`stderr` arrays of a TestResult to chunks without timestamps
+ */
+export function chunksFromResult(output: (string | Buffer)[] | undefined): ConsoleChunk[] {
+  return (output ?? []).map((item) => ({
+    // The arrays hold separate writes, which don't always end with a newline
+    text: (typeof item === 'string' ? item : item.toString('utf-8')).replace(/([^\n])$/, '$1\n'),
+  }));
+}
+
+/**
+ * Keep the head and tail of a text that exceeds `maxBytes`
+ *
+ * A `maxBytes` of 0 disables truncation.
+ */
+export function truncateMiddle(
+  text: string,
+  maxBytes: number
+): { text: string; truncated: boolean } {
+  const buffer = Buffer.from(text, 'utf-8');
+  if (maxBytes <= 0 || buffer.length <= maxBytes) {
+    return { text, truncated: false };
+  }
+
+  const headBytes = Math.floor(maxBytes / 2);
+  const tailBytes = maxBytes - headBytes;
+  // Decoding a slice that splits a multi-byte character yields U+FFFD; drop it
+  const head = buffer.subarray(0, headBytes).toString('utf-8').replace(/�$/, '');
+  const tail = buffer
+    .subarray(buffer.length - tailBytes)
+    .toString('utf-8')
+    .replace(/^�/, '');
+
+  return {
+    text: `${head}\n... [${buffer.length - headBytes - tailBytes} bytes truncated] ...\n${tail}`,
+    truncated: true,
+  };
+}
@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DRY_RUN_TEST_RUN_ID, RecordingAPIClient, checkTestResult } from './dry-run';
+import type { QAStudioTestResult } from './types';
+
+const makeResult = (overrides: Partial<QAStudioTestResult> = {}): QAStudioTestResult => ({
+  title: 'pays with card',
+  fullTitle: 'Checkout > pays with card',
+  status: 'passed',
+  duration: 10,
+  startTime: '2025-01-01T00:00:00.000Z',
+  endTime: '2025-01-01T00:00:00.010Z',
+  retry: 0,
+  ...overrides,
+});
+
+const makeClient = () =>
+  new RecordingAPIClient({
+    apiUrl: 'https://qastudio.dev/api',
+    apiKey: '',
+    projectId: 'project-1',
+  });
+
+describe('checkTestResult', () => {
+  it('should accept a valid result', () => {
+    expect(checkTestResult(makeResult())).toEqual([]);
+  });
+
+  it('should report invalid fields with their path, including nested steps', () => {
+    const result = makeResult({
+      status: 'broken' as QAStudioTestResult['status'],
+      startTime: 'yesterday',
+      retry: -1,
+      steps: [
+        {
+          title: 'outer',
+          category: 'test.step',
+          startTime: '2025-01-01T00:00:00.000Z',
+          duration: 1,
+          status: 'passed',
+          steps: [
+            {
+              title: '',
+              category: 'pw:api',
+              startTime: '2025-01-01T00:00:00.000Z',
+              duration: -1,
+              status: 'skipped',
+            },
+          ],
+        },
+      ],
+    });
+
+    expect(checkTestResult(result)).toEqual([
+      '.status: must be one of passed, failed, skipped, timedout, interrupted, got "broken"',
+      '.startTime: must be an ISO 8601 date',
+      '.retry: must be a non-negative integer',
+      '.steps[0].steps[0].title: must be a non-empty string',
+    ]);
+  });
+});
+
+describe('RecordingAPIClient', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'qastudio-dry-run-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should record what would be sent without making requests', async () => {
+    const client = makeClient();
+    const trace = path.join(dir, 'trace.zip');
+    fs.writeFileSync(trace, Buffer.alloc(2048));
+
+    const run = await client.createTestRun({ projectId: 'project-1', name: 'Nightly' });
+    const response = await client.submitTestResults({
+      testRunId: run.id,
+      results: [makeResult(), makeResult({ title: 'refunds' })],
+    });
+    await client.uploadAttachment('r1', 'trace', 'application/zip', trace);
+    await client.uploadAttachment('r1', 'screenshot', 'image/png', Buffer.alloc(1024));
+    await client.completeTestRun({
+      testRunId: run.id,
+      status: 'passed',
+      summary: {
+        total: 2,
+        passed: 2,
+        failed: 0,
+        skipped: 0,
+        flaky: 0,
+        interrupted: 0,
+        duration: 20,
+      },
+    });
+
+    expect(run.id).toBe(DRY_RUN_TEST_RUN_ID);
+    expect(response.results?.map((entry) => entry.title)).toEqual(['pays with card', 'refunds']);
+    expect(client.recording).toMatchObject({
+      results: 2,
+      resultBatches: 1,
+      attachments: 2,
+      attachmentBytes: 3072,
+      issues: [],
+    });
+    expect(client.describe()).toEqual([
+      'Would create test run "Nightly" in project project-1',
+      'Would submit 2 result(s) in 1 batch(es)',
+      'Would upload 2 attachment(s), 3.0 KB',
+      'Would complete the run with status passed',
+    ]);
+  });
+
+  it('should collect payload problems with the index of the result', async () => {
+    const client = makeClient();
+
+    await client.submitTestResults({ testRunId: 'dry-run', results: [makeResult()] });
+    await client.submitTestResults({
+      testRunId: 'dry-run',
+      results: [makeResult({ fullTitle: '' })],
+    });
+    await client.uploadAttachment('r1', 'video', 'video/webm', path.join(dir, 'missing.webm'));
+
+    expect(client.recording.issues).toEqual([
+      'results[1].fullTitle: must be a non-empty string',
+      `attachment "video": file not found: ${path.join(dir, 'missing.webm')}`,
+    ]);
+  });
+});
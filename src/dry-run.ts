@@ -0,0 +1,370 @@
+import * as fs from 'fs';
+import { QAStudioAPIClient } from './api-client';
+import type {
+  CompleteShardRequest,
+  CompleteShardResponse,
+  CompleteTestRunRequest,
+  CompleteTestRunResponse,
+  CreateTestRunRequest,
+  CreateTestRunResponse,
+  QAStudioTestResult,
+  QAStudioTestStep,
+  SendLiveEventsRequest,
+  SubmitPlannedTestsRequest,
+  SubmitTestResultsRequest,
+  SubmitTestResultsResponse,
+  SyncTestCasesRequest,
+  SyncTestCasesResponse,
+  TestRunStatusResponse,
+} from './types';
+import { formatBytes } from './utils';
+
+/**
+ * Test run ID returned by the recording client
+ */
+export const DRY_RUN_TEST_RUN_ID = 'dry-run';
+
+/**
+ * Maximum number of schema problems kept, so a systematic problem doesn't flood the output
+ */
+const MAX_ISSUES = 50;
+
+const RESULT_STATUSES = ['passed', 'failed', 'skipped', 'timedout', 'interrupted'];
+const STEP_STATUSES = ['passed', 'failed', 'skipped', 'timedout'];
+
+/**
+ * What the reporter would have sent, recorded by a RecordingAPIClient
+ */
+export interface DryRunRecording {
+  testRun?: CreateTestRunRequest;
+  results: number;
+  resultBatches: number;
+  plannedTests: number;
+  liveEvents: number;
+  testCasesSynced: number;
+  attachments: number;
+  attachmentBytes: number;
+  completion?: CompleteTestRunRequest | CompleteShardRequest;
+  /**
+   * Payload problems found by the schema checks, e.g. `results[3].startTime: ...`
+   */
+  issues: string[];
+}
+
+/**
+ * API client that records requests instead of sending them
+ *
+ * Every payload is checked against the shape the API expects, and attachment
+ * sizes are measured, so a dry run shows what a real run would upload.
+ */
+export class RecordingAPIClient extends QAStudioAPIClient {
+  readonly recording: DryRunRecording = {
+    results: 0,
+    resultBatches: 0,
+    plannedTests: 0,
+    liveEvents: 0,
+    testCasesSynced: 0,
+    attachments: 0,
+    attachmentBytes: 0,
+    issues: [],
+  };
+  private nextResultId = 0;
+
+  /**
+   * Record the test run that would be created
+   */
+  async createTestRun(request: CreateTestRunRequest): Promise<CreateTestRunResponse> {
+    this.recording.testRun = request;
+    this.check('testRun', [
+      ...requireString(request, 'projectId'),
+      ...requireString(request, 'name'),
+      ...optionalString(request, 'environment'),
+      ...optionalString(request, 'description'),
+    ]);
+
+    return {
+      id: DRY_RUN_TEST_RUN_ID,
+      projectId: request.projectId,
+      name: request.name ?? '',
+      createdAt: new Date().toISOString(),
+      status: 'active',
+    };
+  }
+
+  /**
+   * Record and check a batch of results
+   */
+  async submitTestResults(request: SubmitTestResultsRequest): Promise<SubmitTestResultsResponse> {
+    const offset = this.recording.results;
+    this.recording.resultBatches++;
+    this.recording.results += request.results.length;
+    request.results.forEach((result, index) =>
+      this.check(`results[${offset + index}]`, checkTestResult(result))
+    );
+
+    return {
+      success: true,
+      testRunId: request.testRunId,
+      processedCount: request.results.length,
+      results: request.results.map((result) => ({
+        testResultId: `dry-run-result-${++this.nextResultId}`,
+        title: result.title,
+      })),
+    };
+  }
+
+  /**
+   * Record the planned tests
+   */
+  async submitPlannedTests(request: SubmitPlannedTestsRequest): Promise<void> {
+    this.recording.plannedTests += request.tests.length;
+  }
+
+  /**
+   * Record live events
+   */
+  async sendLiveEvents(request: SendLiveEventsRequest): Promise<void> {
+    this.recording.liveEvents += request.events.length;
+  }
+
+  /**
+   * Record the test cases that would be created or matched, without assigning IDs
+   */
+  async syncTestCases(request: SyncTestCasesRequest): Promise<SyncTestCasesResponse> {
+    this.recording.testCasesSynced += request.testCases.length;
+    return { testCases: [] };
+  }
+
+  /**
+   * Record and check the run completion
+   */
+  async completeTestRun(request: CompleteTestRunRequest): Promise<CompleteTestRunResponse> {
+    this.recording.completion = request;
+    this.check('completion', checkSummary(request.summary));
+
+    return { success: true, testRunId: request.testRunId, status: 'completed' };
+  }
+
+  /**
+   * Describe the test run as an active run, since a dry run never sends anything
+   */
+  async getTestRun(testRunId: string): Promise<TestRunStatusResponse> {
+    return {
+      id: testRunId,
+      projectId: this.recording.testRun?.projectId ?? '',
+      name: this.recording.testRun?.name ?? '',
+      status: 'active',
+      createdAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Record and check a shard completion; a dry run never waits for other shards
+   */
+  async completeShard(request: CompleteShardRequest): Promise<CompleteShardResponse> {
+    this.recording.completion = request;
+    this.check('completion', checkSummary(request.summary));
+
+    return {
+      success: true,
+      testRunId: request.testRunId,
+      completedShards: request.shard.total,
+      totalShards: request.shard.total,
+      summary: request.summary,
+      status: request.status,
+    };
+  }
+
+  /**
+   * Measure an attachment instead of uploading it
+   */
+  async uploadAttachment(
+    testResultId: string,
+    name: string,
+    contentType: string,
+    data: Buffer | string
+  ): Promise<{
+    attachment: { id: string; filename: string; url: string; size: number; mimeType: string };
+  }> {
+    let size = 0;
+    if (typeof data === 'string') {
+      try {
+        size = fs.statSync(data).size;
+      } catch {
+        this.check(`attachment "${name}"`, [`file not found: ${data}`]);
+      }
+    } else {
+      size = data.length;
+    }
+
+    this.recording.attachments++;
+    this.recording.attachmentBytes += size;
+
+    return {
+      attachment: {
+        id: `${testResultId}-attachment-${this.recording.attachments}`,
+        filename: name,
+        url: '',
+        size,
+        mimeType: contentType,
+      },
+    };
+  }
+
+  /**
+   * Describe what would have been sent
+   */
+  describe(): string[] {
+    const { recording } = this;
+    const lines = [
+      recording.testRun
+        ? `Would create test run "${recording.testRun.name}" in project ${recording.testRun.projectId}`
+        : 'Would report to an existing test run',
+      `Would submit ${recording.results} result(s) in ${recording.resultBatches} batch(es)`,
+      `Would upload ${recording.attachments} attachment(s), ${formatBytes(recording.attachmentBytes)}`,
+    ];
+
+    if (recording.plannedTests > 0) {
+      lines.push(`Would report ${recording.plannedTests} planned test(s)`);
+    }
+    if (recording.liveEvents > 0) {
+      lines.push(`Would send ${recording.liveEvents} live event(s)`);
+    }
+    if (recording.testCasesSynced > 0) {
+      lines.push(`Would create or match ${recording.testCasesSynced} test case(s)`);
+    }
+    if (recording.completion) {
+      lines.push(`Would complete the run with status ${recording.completion.status ?? 'unknown'}`);
+    }
+
+    return lines;
+  }
+
+  /**
+   * Record schema problems found at `path`
+   */
+  private check(path: string, problems: string[]): void {
+    for (const problem of problems) {
+      if (this.recording.issues.length < MAX_ISSUES) {
+        this.recording.issues.push(`${path}${problem.startsWith('.') ? '' : ': '}${problem}`);
+      }
+    }
+  }
+}
+
+/**
+ * Check a test result against the shape the API expects
+ *
+ * @returns Problems found, each starting with the field path (e.g. `.steps[0].title: ...`)
+ */
+export function checkTestResult(result: QAStudioTestResult): string[] {
+  const problems = [
+    ...requireString(result, 'title'),
+    ...requireString(result, 'fullTitle'),
+    ...requireOneOf(result, 'status', RESULT_STATUSES),
+    ...requireDuration(result, 'duration'),
+    ...requireDate(result, 'startTime'),
+    ...requireDate(result, 'endTime'),
+    ...optionalString(result, 'error'),
+    ...optionalString(result, 'stackTrace'),
+    ...optionalString(result, 'testCaseId'),
+  ];
+
+  if (!Number.isInteger(result.retry) || result.retry < 0) {
+    problems.push('.retry: must be a non-negative integer');
+  }
+
+  result.steps?.forEach((step, index) =>
+    problems.push(...checkTestStep(step).map((problem) => `.steps[${index}]${problem}`))
+  );
+
+  return problems;
+}
+
+/**
+ * Check a test step and its nested steps
+ */
+function checkTestStep(step: QAStudioTestStep): string[] {
+  const problems = [
+    ...requireString(step, 'title'),
+    ...requireString(step, 'category'),
+    ...requireOneOf(step, 'status', STEP_STATUSES),
+    ...requireDate(step, 'startTime'),
+  ];
+
+  // Playwright reports -1 for steps that never finished
+  if (typeof step.duration !== 'number' || step.duration < -1) {
+    problems.push('.duration: must be a number of milliseconds');
+  }
+
+  step.steps?.forEach((child, index) =>
+    problems.push(...checkTestStep(child).map((problem) => `.steps[${index}]${problem}`))
+  );
+
+  return problems;
+}
+
+/**
+ * Check a run summary
+ */
+function checkSummary(summary: CompleteTestRunRequest['summary']): string[] {
+  const problems: string[] = [];
+  for (const key of ['total', 'passed', 'failed', 'skipped', 'flaky', 'interrupted'] as const) {
+    if (!Number.isInteger(summary[key]) || summary[key] < 0) {
+      problems.push(`.summary.${key}: must be a non-negative integer`);
+    }
+  }
+  problems.push(...requireDuration(summary, 'duration').map((problem) => `.summary${problem}`));
+  return problems;
+}
+
+/**
+ * Problem if a field is not a non-empty string
+ */
+function requireString<T extends object>(value: T, key: keyof T & string): string[] {
+  const field = value[key];
+  return typeof field === 'string' && field.length > 0
+    ? []
+    : [`.${key}: must be a non-empty string`];
+}
+
+/**
+ * Problem if an optional field is set to something other than a string
+ */
+function optionalString<T extends object>(value: T, key: keyof T & string): string[] {
+  const field = value[key];
+  return field === undefined || typeof field === 'string' ? [] : [`.${key}: must be a string`];
+}
+
+/**
+ * Problem if a field is not one of the allowed values
+ */
+function requireOneOf<T extends object>(
+  value: T,
+  key: keyof T & string,
+  allowed: string[]
+): string[] {
+  return allowed.includes(value[key] as string)
+    ? []
+    : [`.${key}: must be one of ${allowed.join(', ')}, got ${JSON.stringify(value[key])}`];
+}
+
+/**
+ * Problem if a field is not a non-negative duration
+ */
+function requireDuration<T extends object>(value: T, key: keyof T & string): string[] {
+  const field = value[key];
+  return typeof field === 'number' && Number.isFinite(field) && field >= 0
+    ? []
+    : [`.${key}: must be a non-negative number of milliseconds`];
+}
+
+/**
+ * Problem if a field is not an ISO 8601 date
+ */
+function requireDate<T extends object>(value: T, key: keyof T & string): string[] {
+  const field = value[key];
+  return typeof field === 'string' && !Number.isNaN(Date.parse(field))
+    ? []
+    : [`.${key}: must be an ISO 8601 date`];
+}
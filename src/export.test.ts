@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { renderJUnitXml, toExportedResult, writeRunExport, type RunExport } from './export';
+import type { QAStudioTestResult } from './types';
+
+const makeResult = (
+  title: string,
+  status: QAStudioTestResult['status'],
+  extra: Partial<QAStudioTestResult> = {}
+): QAStudioTestResult => ({
+  title,
+  fullTitle: `Checkout > ${title}`,
+  status,
+  duration: 1500,
+  startTime: '2025-01-01T00:00:00.000Z',
+  endTime: '2025-01-01T00:00:01.500Z',
+  retry: 0,
+  isFinalAttempt: true,
+  projectName: 'chromium',
+  ...extra,
+});
+
+const makeExport = (results: QAStudioTestResult[], extra: Partial<RunExport> = {}): RunExport => ({
+  version: 1,
+  createdAt: '2025-01-01T00:01:00.000Z',
+  testRun: { projectId: 'project-1', name: 'Nightly <main>' },
+  status: 'failed',
+  summary: { total: 2, passed: 1, failed: 1, skipped: 0, flaky: 0, interrupted: 0, duration: 3000 },
+  results: results.map((result) => ({ result, attachments: [] })),
+  ...extra,
+});
+
+describe('toExportedResult', () => {
+  it('should reference attachments without their content', () => {
+    const exported = toExportedResult({
+      result: makeResult('pays', 'failed'),
+      attachments: [
+        {
+          name: 'screenshot',
+          contentType: 'image/png',
+          data: Buffer.from('png'),
+          size: 3,
+          type: 'screenshot',
+        },
+        {
+          name: 'trace',
+          contentType: 'application/zip',
+          path: '/tmp/trace.zip',
+          size: 100,
+          type: 'trace',
+        },
+      ],
+    });
+
+    expect(exported.attachments).toEqual([
+      { name: 'screenshot', contentType: 'image/png', size: 3, type: 'screenshot' },
+      {
+        name: 'trace',
+        contentType: 'application/zip',
+        path: '/tmp/trace.zip',
+        size: 100,
+        type: 'trace',
+      },
+    ]);
+  });
+});
+
+describe('writeRunExport', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'qastudio-export-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should write the export as JSON, creating missing directories', () => {
+    const file = path.join(dir, 'reports', 'qastudio.json');
+    const runExport = makeExport([makeResult('pays', 'passed')]);
+
+    writeRunExport(file, runExport);
+
+    expect(JSON.parse(fs.readFileSync(file, 'utf-8'))).toEqual(runExport);
+  });
+});
+
+describe('renderJUnitXml', () => {
+  it('should report final attempts with failures, skips and escaped text', () => {
+    const xml = renderJUnitXml(
+      makeExport([
+        makeResult('pays', 'failed', { isFinalAttempt: false, retry: 0 }),
+        makeResult('pays', 'failed', {
+          retry: 1,
+          error: 'expected "a" & <b>\nsecond line',
+          stackTrace: 'Error: expected\n    at pays.spec.ts:3',
+          testCaseIds: ['QA-1'],
+          consoleOutput: { stdout: 'log <line>' },
+        }),
+        makeResult('refunds', 'interrupted'),
+      ])
+    );
+
+    expect(xml).toContain(
+      '<testsuites name="Nightly &lt;main&gt;" tests="2" failures="1" skipped="1" errors="0" time="3.000">'
+    );
+    expect(xml).toContain(
+      '<testsuite name="chromium" tests="2" failures="1" skipped="1" errors="0" time="3.000">'
+    );
+    expect(xml).toContain('<testcase name="pays" classname="Checkout" time="1.500">');
+    expect(xml).toContain('<property name="testCaseId" value="QA-1"/>');
+    expect(xml).toContain(
+      '<failure message="expected &quot;a&quot; &amp; &lt;b&gt;" type="failed">Error: expected\n    at pays.spec.ts:3</failure>'
+    );
+    expect(xml).toContain('<system-out>log &lt;line&gt;</system-out>');
+    expect(xml).toContain('<skipped message="interrupted"/>');
+  });
+
+  it('should add run-level errors as a separate suite', () => {
+    const xml = renderJUnitXml(
+      makeExport([], {
+        errors: [
+          {
+            message: 'Error: setup failed',
+            location: { file: 'global-setup.ts', line: 4, column: 9 },
+          },
+        ],
+      })
+    );
+
+    expect(xml).toContain('errors="1"');
+    expect(xml).toContain('<testcase name="global-setup.ts:4:9" classname="Run errors" time="0">');
+    expect(xml).toContain('<error message="Error: setup failed">Error: setup failed</error>');
+  });
+
+  it('should drop characters XML cannot represent', () => {
+    const xml = renderJUnitXml(makeExport([makeResult('ansi \x1b[31mred', 'passed')]));
+
+    expect(xml).toContain('name="ansi [31mred"');
+  });
+});
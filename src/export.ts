@@ -0,0 +1,256 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type {
+  AttachmentUpload,
+  CompleteTestRunRequest,
+  CreateTestRunRequest,
+  PendingResult,
+  QAStudioTestResult,
+  RunError,
+  RunStatus,
+} from './types';
+
+/**
+ * Attachment listed in a run export; the content itself is not included
+ */
+export interface ExportedAttachment {
+  name: string;
+  contentType: string;
+  type: AttachmentUpload['type'];
+  size: number;
+  /**
+   * File path of the attachment, absent for attachments Playwright kept in memory
+   */
+  path?: string;
+  metadata?: AttachmentUpload['metadata'];
+}
+
+/**
+ * Test result in a run export, as it is submitted to the API
+ */
+export interface ExportedResult {
+  result: QAStudioTestResult;
+  attachments: ExportedAttachment[];
+}
+
+/**
+ * Everything the reporter sends for a run, written by the `outputFile` option
+ */
+export interface RunExport {
+  version: 1;
+  createdAt: string;
+  /**
+   * Test run the results were uploaded to, if one was created or given
+   */
+  testRunId?: string;
+  /**
+   * Request used to create the test run
+   */
+  testRun: CreateTestRunRequest;
+  status: RunStatus;
+  /**
+   * Summary of the whole local run
+   */
+  summary: CompleteTestRunRequest['summary'];
+  errors?: RunError[];
+  /**
+   * Every attempt, including retried ones, in the order they finished
+   */
+  results: ExportedResult[];
+}
+
+/**
+ * Describe a pending result for export, replacing attachment content with a reference
+ */
+export function toExportedResult(pending: PendingResult): ExportedResult {
+  return {
+    result: pending.result,
+    attachments: pending.attachments.map((attachment) => ({
+      name: attachment.name,
+      contentType: attachment.contentType,
+      type: attachment.type,
+      size: attachment.size,
+      path: attachment.path,
+      metadata: attachment.metadata,
+    })),
+  };
+}
+
+/**
+ * Write a run export as JSON
+ */
+export function writeRunExport(file: string, runExport: RunExport): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, `${JSON.stringify(runExport, null, 2)}\n`);
+}
+
+/**
+ * Write a run export as a JUnit XML report
+ */
+export function writeJUnitReport(file: string, runExport: RunExport): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, renderJUnitXml(runExport));
+}
+
+/**
+ * Render a run export as JUnit XML
+ *
+ * Only the final attempt of each test becomes a test case, grouped in one test
+ * suite per Playwright project. Interrupted tests are reported as skipped, and
+ * run-level errors as errored test cases of a separate suite.
+ */
+export function renderJUnitXml(runExport: RunExport): string {
+  const suites = new Map<string, QAStudioTestResult[]>();
+  for (const { result } of runExport.results) {
+    if (result.isFinalAttempt === false) {
+      continue;
+    }
+    const name = result.projectName || 'default';
+    suites.set(name, [...(suites.get(name) ?? []), result]);
+  }
+
+  const lines: string[] = [];
+  let failures = 0;
+  let skipped = 0;
+  let total = 0;
+
+  for (const [name, results] of suites) {
+    const suiteFailures = results.filter(isFailure).length;
+    const suiteSkipped = results.filter(isSkipped).length;
+    failures += suiteFailures;
+    skipped += suiteSkipped;
+    total += results.length;
+
+    lines.push(
+      `  <testsuite name="${escapeXml(name)}" tests="${results.length}" failures="${suiteFailures}" skipped="${suiteSkipped}" errors="0" time="${seconds(sumDurations(results))}">`
+    );
+    results.forEach((result) => lines.push(...renderTestCase(result)));
+    lines.push('  </testsuite>');
+  }
+
+  const errors = runExport.errors ?? [];
+  if (errors.length > 0) {
+    total += errors.length;
+    lines.push(
+      `  <testsuite name="Run errors" tests="${errors.length}" failures="0" skipped="0" errors="${errors.length}" time="0">`
+    );
+    for (const error of errors) {
+      const location = error.location
+        ? `${error.location.file}:${error.location.line}:${error.location.column}`
+        : 'run';
+      lines.push(
+        `    <testcase name="${escapeXml(location)}" classname="Run errors" time="0">`,
+        `      <error message="${escapeXml(firstLine(error.message))}">${escapeXml(error.stack ?? error.message)}</error>`,
+        '    </testcase>'
+      );
+    }
+    lines.push('  </testsuite>');
+  }
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${escapeXml(runExport.testRun.name ?? 'Playwright tests')}" tests="${total}" failures="${failures}" skipped="${skipped}" errors="${errors.length}" time="${seconds(runExport.summary.duration)}">`,
+    ...lines,
+    '</testsuites>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Render one test case element
+ */
+function renderTestCase(result: QAStudioTestResult): string[] {
+  const classname = result.fullTitle.endsWith(` > ${result.title}`)
+    ? result.fullTitle.slice(0, -` > ${result.title}`.length)
+    : (result.projectName ?? '');
+  const lines = [
+    `    <testcase name="${escapeXml(result.title)}" classname="${escapeXml(classname)}" time="${seconds(result.duration)}">`,
+  ];
+
+  const properties: Array<[string, string]> = [];
+  if (result.identity) {
+    properties.push(['identity', result.identity]);
+  }
+  result.testCaseIds?.forEach((id) => properties.push(['testCaseId', id]));
+  if (result.flaky) {
+    properties.push(['flaky', 'true']);
+  }
+  if (properties.length > 0) {
+    lines.push('      <properties>');
+    properties.forEach(([name, value]) =>
+      lines.push(`        <property name="${name}" value="${escapeXml(value)}"/>`)
+    );
+    lines.push('      </properties>');
+  }
+
+  if (isFailure(result)) {
+    const message = result.error ?? (result.status === 'timedout' ? 'Test timed out' : 'Failed');
+    lines.push(
+      `      <failure message="${escapeXml(firstLine(message))}" type="${result.status}">${escapeXml(result.stackTrace ?? message)}</failure>`
+    );
+  } else if (isSkipped(result)) {
+    lines.push(
+      result.status === 'interrupted'
+        ? '      <skipped message="interrupted"/>'
+        : '      <skipped/>'
+    );
+  }
+
+  if (result.consoleOutput?.stdout) {
+    lines.push(`      <system-out>${escapeXml(result.consoleOutput.stdout)}</system-out>`);
+  }
+  if (result.consoleOutput?.stderr) {
+    lines.push(`      <system-err>${escapeXml(result.consoleOutput.stderr)}</system-err>`);
+  }
+
+  lines.push('    </testcase>');
+  return lines;
+}
+
+/**
+ * Whether a result counts as a JUnit failure
+ */
+function isFailure(result: QAStudioTestResult): boolean {
+  return result.status === 'failed' || result.status === 'timedout';
+}
+
+/**
+ * Whether a result counts as a JUnit skipped test
+ */
+function isSkipped(result: QAStudioTestResult): boolean {
+  return result.status === 'skipped' || result.status === 'interrupted';
+}
+
+/**
+ * Total duration (ms) of a list of results
+ */
+function sumDurations(results: QAStudioTestResult[]): number {
+  return results.reduce((total, result) => total + result.duration, 0);
+}
+
+/**
+ * Milliseconds as JUnit seconds
+ */
+function seconds(ms: number): string {
+  return (ms / 1000).toFixed(3);
+}
+
+/**
+ * First line of a message, for the `message` attribute
+ */
+function firstLine(message: string): string {
+  return message.split('\n')[0];
+}
+
+/**
+ * Escape text for XML attributes and content, dropping characters XML can't represent
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/[^\x09\x0A\x0D\x20-\uD7FF\uE000-\uFFFD\u{10000}-\u{10FFFF}]/gu, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
@@ -0,0 +1,513 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import type { JSONReport } from '@playwright/test/reporter';
+import { RecordingAPIClient } from './dry-run';
+import { convertReport, readReport, summarizeResults, uploadReport } from './import';
+import type { QAStudioReporterOptions } from './types';
+
+const options = {
+  apiUrl: 'https://qastudio.dev/api',
+  apiKey: 'key-1234567890',
+  projectId: 'project-1',
+} as QAStudioReporterOptions;
+
+const jsonReport = {
+  config: {
+    rootDir: '/repo/tests',
+    version: '1.56.1',
+    projects: [{ id: 'chromium', name: 'chromium', retries: 1 }],
+  },
+  suites: [
+    {
+      title: 'checkout.spec.ts',
+      file: 'checkout.spec.ts',
+      line: 0,
+      column: 0,
+      specs: [],
+      suites: [
+        {
+          title: 'Checkout',
+          file: 'checkout.spec.ts',
+          line: 3,
+          column: 6,
+          specs: [
+            {
+              id: 'test-1',
+              title: 'pays',
+              tags: ['smoke'],
+              ok: true,
+              file: 'checkout.spec.ts',
+              line: 4,
+              column: 7,
+              tests: [
+                {
+                  projectId: 'chromium',
+                  projectName: 'chromium',
+                  expectedStatus: 'passed',
+                  status: 'flaky',
+                  timeout: 30000,
+                  annotations: [],
+                  results: [
+                    {
+                      retry: 0,
+                      workerIndex: 0,
+                      parallelIndex: 0,
+                      status: 'failed',
+                      duration: 1000,
+                      startTime: '2025-01-01T00:00:00.000Z',
+                      error: { message: 'Error: key-1234567890 rejected' },
+                      errors: [{ message: 'Error: key-1234567890 rejected' }],
+                      stdout: [{ text: 'paying\n' }],
+                      stderr: [],
+                      attachments: [],
+                      annotations: [],
+                      steps: [
+                        { title: 'open cart', duration: 200, error: undefined },
+                        { title: 'pay', duration: 300, error: undefined },
+                      ],
+                    },
+                    {
+                      retry: 1,
+                      workerIndex: 1,
+                      parallelIndex: 0,
+                      status: 'passed',
+                      duration: 800,
+                      startTime: '2025-01-01T00:00:02.000Z',
+                      error: undefined,
+                      errors: [],
+                      stdout: [],
+                      stderr: [],
+                      attachments: [
+                        {
+                          name: 'screenshot',
+                          contentType: 'image/png',
+                          body: Buffer.from('png').toString('base64'),
+                        },
+                      ],
+                      annotations: [],
+                    },
+                  ],
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    },
+  ],
+  errors: [],
+  stats: {
+    startTime: '2025-01-01T00:00:00.000Z',
+    duration: 3000,
+    expected: 0,
+    unexpected: 0,
+    flaky: 1,
+    skipped: 0,
+  },
+} as unknown as JSONReport;
+
+const blobEvents = [
+  { method: 'onBlobReportMetadata', params: { version: 2, pathSeparator: '/' } },
+  { method: 'onConfigure', params: { config: { rootDir: '/repo/tests', version: '1.56.1' } } },
+  {
+    method: 'onProject',
+    params: {
+      project: {
+        name: 'chromium',
+        retries: 0,
+        suites: [
+          {
+            title: 'checkout.spec.ts',
+            entries: [
+              {
+                title: 'Checkout',
+                entries: [
+                  {
+                    testId: 'test-1',
+                    title: 'pays',
+                    location: { file: 'checkout.spec.ts', line: 4, column: 7 },
+                    retries: 0,
+                    tags: ['@smoke'],
+                    annotations: [],
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+    },
+  },
+  { method: 'onBegin' },
+  {
+    method: 'onTestBegin',
+    params: {
+      testId: 'test-1',
+      result: { id: 'r1', retry: 0, workerIndex: 0, parallelIndex: 0, startTime: 1735689600000 },
+    },
+  },
+  {
+    method: 'onStepBegin',
+    params: {
+      testId: 'test-1',
+      resultId: 'r1',
+      step: { id: 's1', title: 'open cart', category: 'test.step', startTime: 1735689600100 },
+    },
+  },
+  {
+    method: 'onStepBegin',
+    params: {
+      testId: 'test-1',
+      resultId: 'r1',
+      step: {
+        id: 's2',
+        parentStepId: 's1',
+        title: 'click',
+        category: 'pw:api',
+        startTime: 1735689600150,
+      },
+    },
+  },
+  {
+    method: 'onStepEnd',
+    params: { testId: 'test-1', resultId: 'r1', step: { id: 's2', duration: 50 } },
+  },
+  {
+    method: 'onStepEnd',
+    params: { testId: 'test-1', resultId: 'r1', step: { id: 's1', duration: 300 } },
+  },
+  {
+    method: 'onStdIO',
+    params: { testId: 'test-1', resultId: 'r1', type: 'stdout', data: 'paying\n', isBase64: false },
+  },
+  {
+    method: 'onAttach',
+    params: {
+      testId: 'test-1',
+      resultId: 'r1',
+      attachments: [{ name: 'screenshot', contentType: 'image/png', path: 'resources/abc.png' }],
+    },
+  },
+  {
+    method: 'onTestEnd',
+    params: {
+      test: { testId: 'test-1', expectedStatus: 'passed', timeout: 30000, annotations: [] },
+      result: { id: 'r1', duration: 1000, status: 'passed', errors: [] },
+    },
+  },
+  {
+    method: 'onEnd',
+    params: { result: { status: 'passed', startTime: 1735689600000, duration: 1500 } },
+  },
+];
+
+/**
+ * Build a zip archive with deflated entries
+ */
+function createZip(files: Record<string, string>): Buffer {
+  const local: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const nameBuffer = Buffer.from(name);
+    const data = zlib.deflateRawSync(Buffer.from(content));
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(8, 8);
+    header.writeUInt32LE(data.length, 18);
+    header.writeUInt32LE(content.length, 22);
+    header.writeUInt16LE(nameBuffer.length, 26);
+    local.push(header, nameBuffer, data);
+
+    const entry = Buffer.alloc(46);
+    entry.writeUInt32LE(0x02014b50, 0);
+    entry.writeUInt16LE(8, 10);
+    entry.writeUInt32LE(data.length, 20);
+    entry.writeUInt32LE(content.length, 24);
+    entry.writeUInt16LE(nameBuffer.length, 28);
+    entry.writeUInt32LE(offset, 42);
+    central.push(entry, nameBuffer);
+
+    offset += header.length + nameBuffer.length + data.length;
+  }
+
+  const centralDirectory = Buffer.concat(central);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...local, centralDirectory, end]);
+}
+
+describe('readReport', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'qastudio-import-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should rebuild tests and attempts from a JSON report', () => {
+    const file = path.join(dir, 'results.json');
+    fs.writeFileSync(file, JSON.stringify(jsonReport));
+
+    const report = readReport(file);
+
+    expect(report).toMatchObject({
+      format: 'json',
+      rootDir: '/repo/tests',
+      status: 'passed',
+      duration: 3000,
+      startTime: new Date('2025-01-01T00:00:00.000Z'),
+    });
+    expect(report.tests).toHaveLength(1);
+
+    const [{ test, results }] = report.tests;
+    expect(test.titlePath()).toEqual(['', 'chromium', 'checkout.spec.ts', 'Checkout', 'pays']);
+    expect(test.location.file).toBe(path.join('/repo/tests', 'checkout.spec.ts'));
+    expect(test.tags).toEqual(['@smoke']);
+    expect(test.retries).toBe(1);
+    expect(test.outcome()).toBe('flaky');
+    expect(results.map((result) => result.status)).toEqual(['failed', 'passed']);
+  });
+
+  it('should lay out JSON report steps one after another', () => {
+    const file = path.join(dir, 'results.json');
+    fs.writeFileSync(file, JSON.stringify(jsonReport));
+
+    const steps = readReport(file).tests[0].results[0].steps;
+
+    expect(steps.map((step) => [step.title, step.startTime.toISOString()])).toEqual([
+      ['open cart', '2025-01-01T00:00:00.000Z'],
+      ['pay', '2025-01-01T00:00:00.200Z'],
+    ]);
+  });
+
+  it('should replay the events of a blob report zip', () => {
+    const file = path.join(dir, 'report.zip');
+    fs.writeFileSync(
+      file,
+      createZip({
+        'report.jsonl': blobEvents.map((event) => JSON.stringify(event)).join('\n'),
+        'resources/abc.png': 'png',
+      })
+    );
+
+    const report = readReport(file);
+
+    expect(report).toMatchObject({ format: 'blob', rootDir: '/repo/tests', duration: 1500 });
+    const [{ test, results }] = report.tests;
+    expect(test.titlePath()).toEqual(['', 'chromium', 'checkout.spec.ts', 'Checkout', 'pays']);
+    expect(results[0]).toMatchObject({ status: 'passed', duration: 1000, stdout: ['paying\n'] });
+    expect(results[0].steps[0].title).toBe('open cart');
+    expect(results[0].steps[0].steps.map((step) => step.title)).toEqual(['click']);
+    expect(results[0].attachments[0]).toEqual({ name: 'screenshot', contentType: 'image/png' });
+    expect(report.resources.get(results[0].attachments[0])?.read().toString()).toBe('png');
+  });
+
+  it('should merge a directory of blob reports', () => {
+    const events = blobEvents.map((event) => JSON.stringify(event)).join('\n');
+    const laterShard = events.replace(/1735689600000/g, '1735689610000');
+    fs.writeFileSync(path.join(dir, 'report-1.zip'), createZip({ 'report.jsonl': events }));
+    fs.writeFileSync(path.join(dir, 'report-2.zip'), createZip({ 'report.jsonl': laterShard }));
+
+    const report = readReport(dir);
+
+    expect(report.tests).toHaveLength(2);
+    expect(report.startTime).toEqual(new Date(1735689600000));
+    expect(report.duration).toBe(11500);
+  });
+
+  it('should reject blob reports newer than it understands', () => {
+    const file = path.join(dir, 'report.jsonl');
+    fs.writeFileSync(
+      file,
+      JSON.stringify({ method: 'onBlobReportMetadata', params: { version: 99 } })
+    );
+
+    expect(() => readReport(file)).toThrow('version 99 blob report');
+  });
+
+  it('should reject files that are not reports', () => {
+    const file = path.join(dir, 'other.json');
+    fs.writeFileSync(file, '{"hello": "world"}');
+
+    expect(() => readReport(file)).toThrow('is not a Playwright JSON report');
+  });
+});
+
+describe('convertReport', () => {
+  it('should convert every attempt like the reporter does', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'qastudio-import-'));
+    const file = path.join(dir, 'results.json');
+    fs.writeFileSync(file, JSON.stringify(jsonReport));
+
+    const pending = convertReport(readReport(file), {
+      ...options,
+      includeConsoleOutput: 'on-failure',
+    });
+    fs.rmSync(dir, { recursive: true, force: true });
+
+    expect(
+      pending.map(({ result }) => [result.retry, result.isFinalAttempt, result.flaky])
+    ).toEqual([
+      [0, false, undefined],
+      [1, true, true],
+    ]);
+    expect(pending[0].result).toMatchObject({
+      fullTitle: 'chromium > checkout.spec.ts > Checkout > pays',
+      startTime: '2025-01-01T00:00:00.000Z',
+      endTime: '2025-01-01T00:00:01.000Z',
+      error: 'Error: [REDACTED] rejected',
+      consoleOutput: { stdout: 'paying' },
+    });
+    expect(pending[1].attachments).toEqual([
+      expect.objectContaining({ name: 'screenshot', type: 'screenshot', size: 3 }),
+    ]);
+  });
+});
+
+describe('summarizeResults', () => {
+  it('should count final attempts only', () => {
+    const base = {
+      title: 't',
+      fullTitle: 't',
+      duration: 1,
+      startTime: '2025-01-01T00:00:00.000Z',
+      endTime: '2025-01-01T00:00:00.001Z',
+      retry: 0,
+    };
+
+    const summary = summarizeResults(
+      [
+        { ...base, status: 'failed', isFinalAttempt: false },
+        { ...base, status: 'passed', isFinalAttempt: true, flaky: true },
+        { ...base, status: 'timedout', isFinalAttempt: true },
+        { ...base, status: 'skipped', isFinalAttempt: true },
+      ],
+      500
+    );
+
+    expect(summary).toEqual({
+      total: 3,
+      passed: 1,
+      failed: 1,
+      skipped: 1,
+      flaky: 1,
+      interrupted: 0,
+      duration: 500,
+    });
+  });
+});
+
+describe('uploadReport', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'qastudio-import-'));
+    file = path.join(dir, 'results.json');
+    fs.writeFileSync(file, JSON.stringify(jsonReport));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should create and complete a run with the original timestamps', async () => {
+    const client = new RecordingAPIClient(options);
+
+    const outcome = await uploadReport(readReport(file), options, client);
+
+    expect(outcome).toEqual({
+      testRunId: 'dry-run',
+      uploaded: 2,
+      failed: 0,
+      failedAttachments: 0,
+      errors: [],
+    });
+    expect(client.recording.testRun).toMatchObject({
+      projectId: 'project-1',
+      description: 'Imported from results.json',
+      startTime: '2025-01-01T00:00:00.000Z',
+    });
+    expect(client.recording.completion).toMatchObject({
+      status: 'passed',
+      endTime: '2025-01-01T00:00:03.000Z',
+      summary: { total: 1, passed: 1, flaky: 1, duration: 3000 },
+    });
+    expect(client.recording.attachments).toBe(1);
+    expect(client.recording.issues).toEqual([]);
+  });
+
+  it('should complete the run with the totals of uploaded results only', async () => {
+    const client = new RecordingAPIClient(options);
+    vi.spyOn(client, 'submitTestResults').mockRejectedValue(new Error('API Error 500: down'));
+
+    const outcome = await uploadReport(readReport(file), options, client);
+
+    expect(outcome).toMatchObject({ uploaded: 0, failed: 2 });
+    expect(client.recording.completion?.summary).toMatchObject({ total: 0, passed: 0, flaky: 0 });
+  });
+
+  it('should report attachments that could not be uploaded', async () => {
+    const client = new RecordingAPIClient(options);
+    vi.spyOn(client, 'uploadAttachment').mockRejectedValue(new Error('API Error 413: too large'));
+
+    const outcome = await uploadReport(readReport(file), options, client);
+
+    expect(outcome).toMatchObject({ uploaded: 2, failed: 0, failedAttachments: 1 });
+    expect(outcome.errors).toEqual([
+      expect.stringMatching(/pays: attachment screenshot: API Error 413: too large$/),
+    ]);
+  });
+
+  it('should leave an existing run open', async () => {
+    const client = new RecordingAPIClient(options);
+
+    await uploadReport(readReport(file), { ...options, testRunId: 'run-1' }, client);
+
+    expect(client.recording.testRun).toBeUndefined();
+    expect(client.recording.completion).toBeUndefined();
+    expect(client.recording.results).toBe(2);
+  });
+
+  it('should read attachments of a blob report zip when uploading them', async () => {
+    const zip = path.join(dir, 'report.zip');
+    fs.writeFileSync(
+      zip,
+      createZip({
+        'report.jsonl': blobEvents.map((event) => JSON.stringify(event)).join('\n'),
+        'resources/abc.png': 'png',
+      })
+    );
+    const report = readReport(zip);
+    const client = new RecordingAPIClient(options);
+    const upload = vi.spyOn(client, 'uploadAttachment');
+
+    expect(convertReport(report, options)[0].attachments).toEqual([
+      {
+        name: 'screenshot',
+        contentType: 'image/png',
+        type: 'screenshot',
+        size: 3,
+        read: expect.any(Function),
+      },
+    ]);
+    await uploadReport(report, options, client);
+
+    expect(upload).toHaveBeenCalledTimes(1);
+    expect(String(upload.mock.calls[0][3])).toBe('png');
+  });
+});
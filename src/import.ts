@@ -0,0 +1,1053 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import type {
+  FullProject,
+  JSONReport,
+  JSONReportSuite,
+  JSONReportTestResult,
+  JSONReportTestStep,
+  Location,
+  Suite,
+  TestCase,
+  TestError,
+  TestResult,
+  TestStep,
+} from '@playwright/test/reporter';
+import type { QAStudioAPIClient } from './api-client';
+import { Redactor, getRedactionRules } from './redaction';
+import type {
+  AttachmentUpload,
+  CompleteTestRunRequest,
+  PendingResult,
+  QAStudioReporterOptions,
+  QAStudioTestResult,
+  RunStatus,
+} from './types';
+import {
+  batchArray,
+  convertRunError,
+  convertTestResult,
+  determineAttachmentType,
+  extractAttachmentsForUpload,
+  filterAttachments,
+  generateTestRunName,
+  mapBatchResponse,
+} from './utils';
+
+/**
+ * Newest blob report format this importer understands
+ */
+const MAX_BLOB_REPORT_VERSION = 2;
+
+const ZIP_LOCAL_HEADER = 0x04034b50;
+const ZIP_CENTRAL_HEADER = 0x02014b50;
+const ZIP_END_OF_CENTRAL_DIRECTORY = Buffer.from([0x50, 0x4b, 0x05, 0x06]);
+
+/**
+ * Test from an imported report, with every recorded attempt
+ */
+export interface ImportedTest {
+  test: TestCase;
+  results: TestResult[];
+}
+
+/**
+ * Playwright report read from disk, rebuilt into the objects reporters receive
+ */
+export interface ImportedReport {
+  format: 'json' | 'blob';
+  /**
+   * Report file or directory the report was read from
+   */
+  source: string;
+  rootDir: string;
+  playwrightVersion?: string;
+  startTime: Date;
+  duration: number;
+  status: RunStatus;
+  tests: ImportedTest[];
+  errors: TestError[];
+  /**
+   * Attachments stored in a blob report zip, read only when they are uploaded
+   */
+  resources: Map<TestAttachment, ZipEntry>;
+}
+
+type TestAttachment = TestResult['attachments'][number];
+
+/**
+ * Entry of a zip archive, read from disk and inflated on demand
+ */
+interface ZipEntry {
+  /**
+   * Uncompressed size in bytes
+   */
+  size: number;
+  read: () => Buffer;
+}
+
+/**
+ * Outcome of uploading an imported report
+ */
+export interface ImportReportResult {
+  testRunId: string;
+  uploaded: number;
+  failed: number;
+  /**
+   * Attachments of uploaded results that could not be uploaded
+   */
+  failedAttachments: number;
+  /**
+   * Errors of results and attachments that could not be uploaded, e.g.
+   * `Checkout > pays: API Error 400: ...`
+   */
+  errors: string[];
+}
+
+/**
+ * Read a Playwright report
+ *
+ * Accepts a JSON report (`--reporter=json`), a blob report zip, the
+ * `report.jsonl` inside one, or a directory of blob report zips from a
+ * sharded run, which are merged into a single report.
+ */
+export function readReport(file: string): ImportedReport {
+  if (fs.statSync(file).isDirectory()) {
+    const zips = fs
+      .readdirSync(file)
+      .filter((name) => name.endsWith('.zip'))
+      .sort()
+      .map((name) => path.join(file, name));
+    if (zips.length === 0) {
+      throw new Error(`No blob report zips found in ${file}`);
+    }
+    return { ...mergeReports(zips.map(readReport)), source: file };
+  }
+
+  if (isZipFile(file)) {
+    const entries = readZip(file);
+    const events = [...entries.keys()].filter((name) => name.endsWith('.jsonl'));
+    if (events.length !== 1) {
+      throw new Error(`${file} is not a Playwright blob report`);
+    }
+    return parseBlobReport(file, parseJsonLines(entries.get(events[0])!.read()), entries);
+  }
+
+  const content = fs.readFileSync(file);
+  if (file.endsWith('.jsonl')) {
+    return parseBlobReport(file, parseJsonLines(content));
+  }
+
+  let report: JSONReport;
+  try {
+    report = JSON.parse(content.toString('utf-8')) as JSONReport;
+  } catch (error) {
+    throw new Error(`${file} is not a Playwright JSON report: ${(error as Error).message}`);
+  }
+  if (!report.config || !Array.isArray(report.suites)) {
+    throw new Error(`${file} is not a Playwright JSON report`);
+  }
+  return parseJsonReport(file, report);
+}
+
+/**
+ * Convert the tests of a report to results ready for upload
+ *
+ * Uses the same conversion, attachment filters and redaction as the reporter,
+ * so an imported run looks like one reported live.
+ */
+export function convertReport(
+  report: ImportedReport,
+  options: QAStudioReporterOptions,
+  redactor: Redactor = new Redactor(getRedactionRules(options))
+): PendingResult[] {
+  const pending: PendingResult[] = [];
+
+  for (const { test, results } of report.tests) {
+    for (const result of results) {
+      pending.push({
+        result: convertTestResult(test, result, result.startTime, options, {
+          redactor,
+          rootDir: report.rootDir,
+        }),
+        attachments: filterAttachments(
+          test,
+          result,
+          extractReportAttachments(report, result),
+          options,
+          report.playwrightVersion
+        ).map((attachment) => ({ ...attachment, name: redactor.redact(attachment.name) })),
+      });
+    }
+  }
+
+  return pending;
+}
+
+/**
+ * List the attachments of a result for upload, leaving those stored in a blob
+ * report zip unread until they are uploaded
+ */
+function extractReportAttachments(report: ImportedReport, result: TestResult): AttachmentUpload[] {
+  return result.attachments.flatMap((attachment) => {
+    const resource = report.resources.get(attachment);
+    if (!resource) {
+      return extractAttachmentsForUpload({ ...result, attachments: [attachment] });
+    }
+    return [
+      {
+        name: attachment.name,
+        contentType: attachment.contentType,
+        read: resource.read,
+        size: resource.size,
+        type: determineAttachmentType(attachment.name, attachment.contentType),
+      },
+    ];
+  });
+}
+
+/**
+ * Count the final attempts of a run by status
+ */
+export function summarizeResults(
+  results: QAStudioTestResult[],
+  duration: number
+): CompleteTestRunRequest['summary'] {
+  const summary = {
+    total: 0,
+    passed: 0,
+    failed: 0,
+    skipped: 0,
+    flaky: 0,
+    interrupted: 0,
+    duration,
+  };
+
+  for (const result of results) {
+    if (result.isFinalAttempt === false) {
+      continue;
+    }
+    summary.total++;
+    if (result.flaky) {
+      summary.flaky++;
+    }
+    switch (result.status) {
+      case 'passed':
+        summary.passed++;
+        break;
+      case 'failed':
+      case 'timedout':
+        summary.failed++;
+        break;
+      case 'interrupted':
+        summary.interrupted++;
+        break;
+      default:
+        summary.skipped++;
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Upload an imported report as a test run with its original timestamps
+ *
+ * Creates a run unless `options.testRunId` names an existing one; only a run
+ * created here is completed, so an existing run stays open for its owner.
+ */
+export async function uploadReport(
+  report: ImportedReport,
+  options: QAStudioReporterOptions,
+  apiClient: QAStudioAPIClient
+): Promise<ImportReportResult> {
+  const redactor = new Redactor(getRedactionRules(options));
+  const pending = convertReport(report, options, redactor);
+  const endTime = new Date(report.startTime.getTime() + report.duration);
+
+  let testRunId = options.testRunId;
+  if (!testRunId) {
+    const response = await apiClient.createTestRun({
+      projectId: options.projectId,
+      name: options.testRunName ?? generateTestRunName(report.startTime),
+      description: options.testRunDescription ?? `Imported from ${path.basename(report.source)}`,
+      environment: options.environment ?? 'default',
+      milestoneId: options.milestoneId,
+      startTime: report.startTime.toISOString(),
+    });
+    testRunId = response.id;
+  }
+
+  const outcome: ImportReportResult = {
+    testRunId,
+    uploaded: 0,
+    failed: 0,
+    failedAttachments: 0,
+    errors: [],
+  };
+  const uploadedResults: QAStudioTestResult[] = [];
+
+  for (const batch of batchArray(pending, Math.max(1, options.batchSize ?? 50))) {
+    const results = batch.map((item) => item.result);
+
+    let mapped: Array<{ testResultId?: string; error?: string }>;
+    try {
+      const response = await apiClient.submitTestResults({ testRunId, results });
+      mapped = mapBatchResponse(results, response);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      mapped = batch.map(() => ({ error: message }));
+    }
+
+    for (const [index, item] of batch.entries()) {
+      const { testResultId, error } = mapped[index];
+      if (error) {
+        outcome.failed++;
+        outcome.errors.push(`${item.result.fullTitle}: ${error}`);
+        continue;
+      }
+      if (testResultId) {
+        for (const attachment of item.attachments) {
+          try {
+            await apiClient.uploadAttachment(
+              testResultId,
+              attachment.name,
+              attachment.contentType,
+              attachment.path ?? attachment.data ?? attachment.read?.() ?? Buffer.alloc(0),
+              attachment.type,
+              attachment.metadata
+            );
+          } catch (uploadError) {
+            const message =
+              uploadError instanceof Error ? uploadError.message : String(uploadError);
+            outcome.failedAttachments++;
+            outcome.errors.push(
+              `${item.result.fullTitle}: attachment ${attachment.name}: ${message}`
+            );
+          }
+        }
+      }
+      outcome.uploaded++;
+      uploadedResults.push(item.result);
+    }
+  }
+
+  if (!options.testRunId) {
+    const errors = redactor.redactObject(report.errors.map(convertRunError));
+    await apiClient.completeTestRun({
+      testRunId,
+      endTime: endTime.toISOString(),
+      status: report.status,
+      errored: errors.length > 0,
+      errors: errors.length > 0 ? errors : undefined,
+      // Like the reporter, count only what reached the API
+      summary: summarizeResults(uploadedResults, report.duration),
+    });
+  }
+
+  return outcome;
+}
+
+/**
+ * Rebuild the tests of a JSON report
+ *
+ * JSON reports keep only `test.step` steps and don't record when steps
+ * started, so steps are laid out one after another from the start of their
+ * parent.
+ */
+function parseJsonReport(source: string, report: JSONReport): ImportedReport {
+  const rootDir = report.config.rootDir;
+  const projects = new Map(report.config.projects.map((project) => [project.id, project]));
+  const tests: ImportedTest[] = [];
+
+  const visit = (suite: JSONReportSuite, titles: string[]) => {
+    for (const spec of suite.specs) {
+      for (const jsonTest of spec.tests) {
+        const results = jsonTest.results.map(toJsonTestResult);
+        tests.push({
+          test: createTestCase({
+            // Specs merged across projects share the ID of the first project's test
+            id: spec.tests.length > 1 ? `${spec.id}-${jsonTest.projectId}` : spec.id,
+            title: spec.title,
+            titles,
+            projectName: jsonTest.projectName,
+            location: {
+              file: path.join(rootDir, spec.file),
+              line: spec.line,
+              column: spec.column,
+            },
+            tags: spec.tags.map((tag) => (tag.startsWith('@') ? tag : `@${tag}`)),
+            annotations: jsonTest.annotations,
+            retries: projects.get(jsonTest.projectId)?.retries ?? 0,
+            timeout: jsonTest.timeout,
+            expectedStatus: jsonTest.expectedStatus,
+            results,
+          }),
+          results,
+        });
+      }
+    }
+    suite.suites?.forEach((child) => visit(child, [...titles, child.title]));
+  };
+  report.suites.forEach((suite) => visit(suite, [suite.title]));
+
+  const failed = report.errors.length > 0 || report.stats.unexpected > 0;
+  return {
+    format: 'json',
+    source,
+    rootDir,
+    playwrightVersion: report.config.version,
+    startTime: new Date(report.stats.startTime),
+    duration: report.stats.duration,
+    status: failed ? 'failed' : 'passed',
+    tests,
+    errors: report.errors,
+    resources: new Map(),
+  };
+}
+
+/**
+ * Rebuild a test result of a JSON report
+ */
+function toJsonTestResult(result: JSONReportTestResult): TestResult {
+  const startTime = new Date(result.startTime);
+  const toChunk = (entry: { text: string } | { buffer: string }) =>
+    'text' in entry ? entry.text : Buffer.from(entry.buffer, 'base64');
+
+  return createTestResult({
+    retry: result.retry,
+    workerIndex: result.workerIndex,
+    parallelIndex: result.parallelIndex,
+    status: result.status ?? 'skipped',
+    duration: result.duration,
+    startTime,
+    error: result.error,
+    errors: result.errors,
+    stdout: result.stdout.map(toChunk),
+    stderr: result.stderr.map(toChunk),
+    attachments: result.attachments.map((attachment) => ({
+      name: attachment.name,
+      contentType: attachment.contentType,
+      path: attachment.path,
+      body: attachment.body ? Buffer.from(attachment.body, 'base64') : undefined,
+    })),
+    annotations: result.annotations ?? [],
+    steps: toJsonTestSteps(result.steps ?? [], startTime),
+  });
+}
+
+/**
+ * Rebuild JSON report steps, each starting when the previous one ended
+ */
+function toJsonTestSteps(
+  steps: JSONReportTestStep[],
+  startTime: Date,
+  parent?: TestStep
+): TestStep[] {
+  let time = startTime.getTime();
+
+  return steps.map((jsonStep) => {
+    const stepStart = new Date(time);
+    time += Math.max(jsonStep.duration, 0);
+    const step = createTestStep({
+      title: jsonStep.title,
+      category: 'test.step',
+      startTime: stepStart,
+      duration: jsonStep.duration,
+      error: jsonStep.error,
+      parent,
+    });
+    step.steps.push(...toJsonTestSteps(jsonStep.steps ?? [], stepStart, step));
+    return step;
+  });
+}
+
+/**
+ * Blob report event, one per line of `report.jsonl`
+ */
+interface BlobEvent {
+  method: string;
+  params?: unknown;
+}
+
+interface BlobSuite {
+  title: string;
+  entries: Array<BlobSuite | BlobTest>;
+}
+
+interface BlobTest {
+  testId: string;
+  title: string;
+  location: Location;
+  retries: number;
+  tags?: string[];
+  annotations?: TestCase['annotations'];
+}
+
+interface BlobAttachment {
+  name: string;
+  contentType: string;
+  path?: string;
+  base64?: string;
+}
+
+interface BlobStep {
+  id: string;
+  parentStepId?: string;
+  title: string;
+  category: string;
+  startTime: number;
+  location?: Location;
+  duration?: number;
+  error?: TestError;
+}
+
+/**
+ * Test of a blob report while its events are replayed
+ */
+interface BlobTestState {
+  blobTest: BlobTest;
+  titles: string[];
+  projectName: string;
+  expectedStatus: TestCase['expectedStatus'];
+  annotations: TestCase['annotations'];
+  results: TestResult[];
+}
+
+/**
+ * Rebuild the tests of a blob report by replaying its reporter events
+ *
+ * @param zipEntries - Entries of the zip holding the report, which stores attachment
+ * files (e.g. `resources/<sha1>.png`); without it, they are read from next to the report
+ */
+function parseBlobReport(
+  source: string,
+  events: BlobEvent[],
+  zipEntries?: Map<string, ZipEntry>
+): ImportedReport {
+  let rootDir = '';
+  let playwrightVersion: string | undefined;
+  let pathSeparator = '/';
+  let startTime: Date | undefined;
+  let duration = 0;
+  let status: RunStatus = 'passed';
+  const errors: TestError[] = [];
+  const tests = new Map<string, BlobTestState>();
+  const results = new Map<string, { state: BlobTestState; result: TestResult }>();
+  const steps = new Map<string, TestStep>();
+  const resources = new Map<TestAttachment, ZipEntry>();
+
+  // Locations are relative to rootDir, with the separator of the machine that ran the tests
+  const toAbsolute = (file: string) =>
+    path.isAbsolute(file) ? file : path.join(rootDir, file.split(pathSeparator).join('/'));
+  const toAttachments = (attachments: BlobAttachment[] = []) =>
+    attachments.map((blobAttachment) => {
+      const attachment: TestAttachment = {
+        name: blobAttachment.name,
+        contentType: blobAttachment.contentType,
+      };
+      if (blobAttachment.base64) {
+        attachment.body = Buffer.from(blobAttachment.base64, 'base64');
+      } else if (blobAttachment.path) {
+        const entry = blobAttachment.path.split(pathSeparator).join('/');
+        const resource = zipEntries?.get(entry);
+        if (resource) {
+          resources.set(attachment, resource);
+        } else if (!zipEntries) {
+          attachment.path = path.join(path.dirname(source), entry);
+        }
+      }
+      return attachment;
+    });
+
+  const visit = (suite: BlobSuite, titles: string[], projectName: string) => {
+    for (const entry of suite.entries) {
+      if ('testId' in entry) {
+        tests.set(entry.testId, {
+          blobTest: entry,
+          titles,
+          projectName,
+          expectedStatus: 'passed',
+          annotations: entry.annotations ?? [],
+          results: [],
+        });
+      } else {
+        visit(entry, [...titles, entry.title], projectName);
+      }
+    }
+  };
+
+  for (const event of events) {
+    switch (event.method) {
+      case 'onBlobReportMetadata': {
+        const metadata = event.params as { version: number; pathSeparator?: string };
+        if (metadata.version > MAX_BLOB_REPORT_VERSION) {
+          throw new Error(
+            `${source} is a version ${metadata.version} blob report; this version of the reporter reads up to version ${MAX_BLOB_REPORT_VERSION}`
+          );
+        }
+        pathSeparator = metadata.pathSeparator ?? '/';
+        break;
+      }
+      case 'onConfigure': {
+        const { config } = event.params as { config: { rootDir: string; version?: string } };
+        rootDir = config.rootDir;
+        playwrightVersion = config.version;
+        break;
+      }
+      case 'onProject': {
+        const { project } = event.params as { project: { name: string; suites: BlobSuite[] } };
+        project.suites.forEach((suite) => visit(suite, [suite.title], project.name));
+        break;
+      }
+      case 'onTestBegin': {
+        const params = event.params as {
+          testId: string;
+          result: {
+            id: string;
+            retry: number;
+            workerIndex: number;
+            parallelIndex: number;
+            startTime: number;
+          };
+        };
+        const state = tests.get(params.testId);
+        if (!state) {
+          break;
+        }
+        const result = createTestResult({
+          retry: params.result.retry,
+          workerIndex: params.result.workerIndex,
+          parallelIndex: params.result.parallelIndex,
+          startTime: new Date(params.result.startTime),
+          status: 'skipped',
+          duration: -1,
+        });
+        state.results.push(result);
+        results.set(params.result.id, { state, result });
+        break;
+      }
+      case 'onStepBegin': {
+        const params = event.params as { resultId: string; step: BlobStep };
+        const entry = results.get(params.resultId);
+        if (!entry) {
+          break;
+        }
+        const parent = params.step.parentStepId ? steps.get(params.step.parentStepId) : undefined;
+        const step = createTestStep({
+          title: params.step.title,
+          category: params.step.category,
+          startTime: new Date(params.step.startTime),
+          duration: -1,
+          location: params.step.location && {
+            ...params.step.location,
+            file: toAbsolute(params.step.location.file),
+          },
+          parent,
+        });
+        (parent ?? entry.result).steps.push(step);
+        steps.set(params.step.id, step);
+        break;
+      }
+      case 'onStepEnd': {
+        const { step: end } = event.params as { step: BlobStep };
+        const step = steps.get(end.id);
+        if (step) {
+          Object.assign(step, { duration: end.duration ?? -1, error: end.error });
+        }
+        break;
+      }
+      case 'onStdIO': {
+        const params = event.params as {
+          resultId?: string;
+          type: 'stdout' | 'stderr';
+          data: string;
+          isBase64: boolean;
+        };
+        const entry = params.resultId ? results.get(params.resultId) : undefined;
+        entry?.result[params.type].push(
+          params.isBase64 ? Buffer.from(params.data, 'base64') : params.data
+        );
+        break;
+      }
+      case 'onAttach': {
+        const params = event.params as { resultId: string; attachments: BlobAttachment[] };
+        results.get(params.resultId)?.result.attachments.push(...toAttachments(params.attachments));
+        break;
+      }
+      case 'onTestEnd': {
+        const params = event.params as {
+          test: {
+            expectedStatus: TestCase['expectedStatus'];
+            annotations?: TestCase['annotations'];
+          };
+          result: {
+            id: string;
+            duration: number;
+            status: TestResult['status'];
+            errors: TestError[];
+            annotations?: TestResult['annotations'];
+            attachments?: BlobAttachment[];
+          };
+        };
+        const entry = results.get(params.result.id);
+        if (!entry) {
+          break;
+        }
+        entry.state.expectedStatus = params.test.expectedStatus;
+        if (params.test.annotations?.length) {
+          entry.state.annotations = params.test.annotations;
+        }
+        Object.assign(entry.result, {
+          duration: params.result.duration,
+          status: params.result.status,
+          errors: params.result.errors,
+          error: params.result.errors[0],
+          annotations: params.result.annotations ?? [],
+        });
+        // Version 1 blob reports sent attachments with the result instead of onAttach
+        entry.result.attachments.push(...toAttachments(params.result.attachments));
+        break;
+      }
+      case 'onError': {
+        errors.push((event.params as { error: TestError }).error);
+        break;
+      }
+      case 'onEnd': {
+        const { result } = event.params as {
+          result: { status: RunStatus; startTime: number; duration: number };
+        };
+        status = result.status;
+        startTime = new Date(result.startTime);
+        duration = result.duration;
+        break;
+      }
+    }
+  }
+
+  const imported: ImportedTest[] = [...tests.values()]
+    .filter((state) => state.results.length > 0)
+    .map((state) => {
+      const test = createTestCase({
+        id: state.blobTest.testId,
+        title: state.blobTest.title,
+        titles: state.titles.map((title, index) =>
+          index === 0 ? title.split(pathSeparator).join('/') : title
+        ),
+        projectName: state.projectName,
+        location: { ...state.blobTest.location, file: toAbsolute(state.blobTest.location.file) },
+        tags: state.blobTest.tags ?? [],
+        annotations: state.annotations,
+        retries: state.blobTest.retries,
+        expectedStatus: state.expectedStatus,
+        results: state.results,
+      });
+      return { test, results: state.results };
+    });
+
+  const firstStart = imported
+    .flatMap(({ results }) => results.map((result) => result.startTime.getTime()))
+    .sort((a, b) => a - b)[0];
+
+  return {
+    format: 'blob',
+    source,
+    rootDir,
+    playwrightVersion,
+    startTime: startTime ?? new Date(firstStart ?? Date.now()),
+    duration,
+    status,
+    tests: imported,
+    errors,
+    resources,
+  };
+}
+
+/**
+ * Merge the reports of a sharded run into one, spanning from the first shard's
+ * start to the last shard's end
+ */
+function mergeReports(reports: ImportedReport[]): ImportedReport {
+  const start = Math.min(...reports.map((report) => report.startTime.getTime()));
+  const end = Math.max(...reports.map((report) => report.startTime.getTime() + report.duration));
+  const failed = reports.find((report) => report.status !== 'passed');
+
+  return {
+    ...reports[0],
+    startTime: new Date(start),
+    duration: end - start,
+    status: failed?.status ?? 'passed',
+    tests: reports.flatMap((report) => report.tests),
+    errors: reports.flatMap((report) => report.errors),
+    resources: new Map(reports.flatMap((report) => [...report.resources])),
+  };
+}
+
+/**
+ * Parse newline-delimited JSON
+ */
+function parseJsonLines(content: Buffer): BlobEvent[] {
+  return content
+    .toString('utf-8')
+    .split('\n')
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line) as BlobEvent);
+}
+
+/**
+ * Fields of a test case rebuilt from a report
+ */
+interface TestCaseFields {
+  id: string;
+  title: string;
+  /**
+   * Titles of the file suite and describe blocks containing the test
+   */
+  titles: string[];
+  projectName: string;
+  location: Location;
+  tags: string[];
+  annotations: TestCase['annotations'];
+  retries: number;
+  /**
+   * Timeout in milliseconds, when the report records it
+   */
+  timeout?: number;
+  expectedStatus: TestCase['expectedStatus'];
+  results: TestResult[];
+}
+
+/**
+ * Build a test case as Playwright hands it to reporters
+ *
+ * The test gets a chain of parent suites (root, project, file, describe
+ * blocks), so titles, identities and project names come out the same as for
+ * a test reported live.
+ */
+function createTestCase(fields: TestCaseFields): TestCase {
+  const project = createProject(fields.projectName, fields.retries);
+  let parent = createSuite('root', '', undefined, undefined);
+  parent = createSuite('project', fields.projectName, parent, project);
+  for (const [index, title] of fields.titles.entries()) {
+    parent = createSuite(index === 0 ? 'file' : 'describe', title, parent, project);
+  }
+
+  const test: TestCase = {
+    type: 'test',
+    id: fields.id,
+    title: fields.title,
+    parent,
+    location: fields.location,
+    tags: fields.tags,
+    annotations: fields.annotations,
+    retries: fields.retries,
+    timeout: fields.timeout ?? 0,
+    expectedStatus: fields.expectedStatus,
+    repeatEachIndex: 0,
+    results: fields.results,
+    titlePath: () => [...parent.titlePath(), fields.title],
+    outcome: () => getOutcome(fields.expectedStatus, fields.results),
+    ok: () =>
+      ['expected', 'flaky', 'skipped'].includes(getOutcome(fields.expectedStatus, fields.results)),
+  };
+  parent.tests.push(test);
+
+  return test;
+}
+
+/**
+ * Build a suite, added to the suites of its parent
+ */
+function createSuite(
+  type: Suite['type'],
+  title: string,
+  parent: Suite | undefined,
+  project: FullProject | undefined
+): Suite {
+  const suite: Suite = {
+    type,
+    title,
+    parent,
+    suites: [],
+    tests: [],
+    allTests: () => [...suite.tests, ...suite.suites.flatMap((child) => child.allTests())],
+    entries: () => [...suite.suites, ...suite.tests],
+    project: () => project,
+    titlePath: () => [...(parent?.titlePath() ?? []), title],
+  };
+  parent?.suites.push(suite);
+
+  return suite;
+}
+
+/**
+ * Build the project of a rebuilt test; reports keep only its name and retries
+ */
+function createProject(name: string, retries: number): FullProject {
+  return {
+    name,
+    retries,
+    use: {},
+    metadata: {},
+    dependencies: [],
+    grep: /.*/,
+    grepInvert: null,
+    outputDir: '',
+    repeatEach: 1,
+    snapshotDir: '',
+    testDir: '',
+    testIgnore: [],
+    testMatch: [],
+    timeout: 0,
+  };
+}
+
+/**
+ * Build a test result, with no output, steps or attachments unless given
+ */
+function createTestResult(
+  fields: Pick<
+    TestResult,
+    'retry' | 'workerIndex' | 'parallelIndex' | 'status' | 'duration' | 'startTime'
+  > &
+    Partial<TestResult>
+): TestResult {
+  return {
+    errors: [],
+    stdout: [],
+    stderr: [],
+    attachments: [],
+    annotations: [],
+    steps: [],
+    ...fields,
+  };
+}
+
+/**
+ * Build a test step with no child steps yet
+ */
+function createTestStep(
+  fields: Pick<TestStep, 'title' | 'category' | 'startTime' | 'duration'> &
+    Partial<Pick<TestStep, 'error' | 'location' | 'parent'>>
+): TestStep {
+  return {
+    ...fields,
+    steps: [],
+    attachments: [],
+    annotations: [],
+    titlePath: () => [...(fields.parent?.titlePath() ?? []), fields.title],
+  };
+}
+
+/**
+ * Outcome of a test across its attempts, computed the way Playwright does
+ */
+function getOutcome(
+  expectedStatus: TestCase['expectedStatus'],
+  results: TestResult[]
+): ReturnType<TestCase['outcome']> {
+  const attempts = [...results];
+  while (attempts[0]?.status === 'skipped' || attempts[0]?.status === 'interrupted') {
+    attempts.shift();
+  }
+  if (attempts.length === 0) {
+    return 'skipped';
+  }
+
+  const failures = attempts.filter(
+    (result) =>
+      result.status !== 'skipped' &&
+      result.status !== 'interrupted' &&
+      result.status !== expectedStatus
+  );
+  if (failures.length === 0) {
+    return 'expected';
+  }
+  return failures.length === attempts.length ? 'unexpected' : 'flaky';
+}
+
+/**
+ * Check whether a file starts like a zip archive
+ */
+function isZipFile(file: string): boolean {
+  const signature = readAt(file, 0, 4);
+  return signature.length === 4 && signature.readUInt32LE(0) === ZIP_LOCAL_HEADER;
+}
+
+/**
+ * Read the entries of a zip archive
+ *
+ * Only the central directory is read up front; each entry is read from disk
+ * and inflated when it is used. Supports the stored and deflated entries
+ * Playwright writes; ZIP64 archives (over 4 GB) are not supported.
+ */
+function readZip(file: string): Map<string, ZipEntry> {
+  // The end of central directory record is 22 bytes, followed by a comment of up to 64 KB
+  const { size } = fs.statSync(file);
+  const tailStart = Math.max(0, size - 22 - 0xffff);
+  const tail = readAt(file, tailStart, size - tailStart);
+  const end = tail.lastIndexOf(ZIP_END_OF_CENTRAL_DIRECTORY);
+  if (end < 0) {
+    throw new Error('Invalid zip file: end of central directory not found');
+  }
+
+  const entries = new Map<string, ZipEntry>();
+  const count = tail.readUInt16LE(end + 10);
+  const directory = readAt(file, tail.readUInt32LE(end + 16), tail.readUInt32LE(end + 12));
+  let offset = 0;
+
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > directory.length || directory.readUInt32LE(offset) !== ZIP_CENTRAL_HEADER) {
+      throw new Error('Invalid zip file: corrupt central directory');
+    }
+    const method = directory.readUInt16LE(offset + 10);
+    const compressedSize = directory.readUInt32LE(offset + 20);
+    const uncompressedSize = directory.readUInt32LE(offset + 24);
+    const nameLength = directory.readUInt16LE(offset + 28);
+    const extraLength = directory.readUInt16LE(offset + 30);
+    const commentLength = directory.readUInt16LE(offset + 32);
+    const localOffset = directory.readUInt32LE(offset + 42);
+    const name = directory.toString('utf-8', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (
+      compressedSize === 0xffffffff ||
+      uncompressedSize === 0xffffffff ||
+      localOffset === 0xffffffff
+    ) {
+      throw new Error('ZIP64 archives are not supported');
+    }
+
+    entries.set(name, {
+      size: uncompressedSize,
+      read: () => {
+        const header = readAt(file, localOffset, 30);
+        const dataStart = localOffset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28);
+        const data = readAt(file, dataStart, compressedSize);
+        if (method === 0) {
+          return data;
+        }
+        if (method === 8) {
+          return zlib.inflateRawSync(data);
+        }
+        throw new Error(`Unsupported compression method ${method} for zip entry ${name}`);
+      },
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Read part of a file, without loading the rest of it
+ */
+function readAt(file: string, position: number, length: number): Buffer {
+  const fd = fs.openSync(file, 'r');
+  try {
+    const buffer = Buffer.alloc(length);
+    return buffer.subarray(0, fs.readSync(fd, buffer, 0, length, position));
+  } finally {
+    fs.closeSync(fd);
+  }
+}
@@ -0,0 +1,424 @@
+import { describe, it, expect, beforeEach, afterEach, vi, type MockInstance } from 'vitest';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import type { AddressInfo } from 'net';
+import type {
+  FullConfig,
+  FullResult,
+  Suite,
+  TestCase,
+  TestResult,
+} from '@playwright/test/reporter';
+import QAStudioReporter, { replaySpool } from './index';
+import type { SpoolManifest } from './spool';
+import type { QAStudioReporterOptions } from './types';
+
+const makeTest = (retries: number, outcome: string) =>
+  ({
+    id: 'test-1',
+    title: 'pays with card',
+    tags: [],
+    annotations: [],
+    retries,
+    expectedStatus: 'passed',
+    outcome: () => outcome,
+    location: { file: '/repo/tests/checkout.spec.ts', line: 4, column: 1 },
+    titlePath: () => ['', 'chromium', 'checkout.spec.ts', 'pays with card'],
+    parent: { title: 'checkout.spec.ts', parent: undefined, project: () => ({ name: 'chromium' }) },
+  }) as unknown as TestCase;
+
+const makeResult = (status: string, retry: number) =>
+  ({
+    status,
+    retry,
+    duration: 5,
+    startTime: new Date(),
+    steps: [],
+    attachments: [],
+    stdout: [],
+    stderr: [],
+  }) as unknown as TestResult;
+
+const config = { version: '1.56.1', rootDir: '/repo/tests', shard: null } as unknown as FullConfig;
+
+describe('QAStudioReporter', () => {
+  let server: http.Server;
+  let apiUrl: string;
+  let requests: Array<{ url: string; body: string }>;
+  let failingUrls: string[];
+  let omitResultIds: boolean;
+  let rejectedTitles: string[];
+
+  beforeEach(async () => {
+    requests = [];
+    failingUrls = [];
+    omitResultIds = false;
+    rejectedTitles = [];
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        requests.push({ url: req.url ?? '', body });
+        res.setHeader('Content-Type', 'application/json');
+        if (failingUrls.includes(req.url ?? '')) {
+          res.statusCode = 404;
+          res.end(JSON.stringify({ error: 'Not found' }));
+        } else if (req.url === '/api/runs') {
+          res.end(JSON.stringify({ id: 'run-1' }));
+        } else if (req.url === '/api/results') {
+          const { results } = JSON.parse(body) as { results: Array<{ title: string }> };
+          const accepted = results.filter((r) => !rejectedTitles.includes(r.title));
+          res.end(
+            JSON.stringify({
+              success: true,
+              processedCount: accepted.length,
+              results: accepted.map((r, i) => ({
+                testResultId: omitResultIds ? undefined : `result-${i}`,
+                title: r.title,
+              })),
+              errors: results
+                .filter((r) => rejectedTitles.includes(r.title))
+                .map((r) => ({ testTitle: r.title, error: 'Rejected' })),
+            })
+          );
+        } else if (req.url === '/api/test-cases/sync') {
+          const { testCases } = JSON.parse(body) as { testCases: Array<{ key: string }> };
+          res.end(
+            JSON.stringify({
+              testCases: testCases.map(({ key }) => ({ key, id: 'case-1', created: true })),
+            })
+          );
+        } else if (req.url === '/api/runs/run-1/shards/complete') {
+          res.end(JSON.stringify({ completedShards: 1, totalShards: 2 }));
+        } else {
+          res.end('{}');
+        }
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    apiUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const createReporter = (options: Partial<QAStudioReporterOptions> = {}) =>
+    new QAStudioReporter({
+      apiUrl,
+      apiKey: 'key',
+      projectId: 'project-1',
+      captureCIMetadata: false,
+      handleSignals: false,
+      maxRetries: 1,
+      ...options,
+    });
+
+  /**
+   * Run a test through the reporter: each status is one attempt
+   *
+   * @returns Error thrown by onBegin, if any
+   */
+  const runTest = async (
+    reporter: QAStudioReporter,
+    test: TestCase,
+    statuses: string[],
+    attachments: TestResult['attachments'] = [],
+    runStatus: FullResult['status'] = 'passed'
+  ) => {
+    const suite = { allTests: () => [test] } as unknown as Suite;
+    const beginError = await reporter.onBegin(config, suite).catch((error: unknown) => error);
+    for (const [retry, status] of statuses.entries()) {
+      const result = { ...makeResult(status, retry), attachments };
+      reporter.onTestBegin(test, result);
+      await reporter.onTestEnd(test, result);
+    }
+    await reporter.onEnd({ status: runStatus } as FullResult);
+    return beginError;
+  };
+
+  const bodyOf = (url: string) =>
+    JSON.parse(requests.find((request) => request.url === url)?.body ?? 'null');
+
+  it('should report a test that passed on retry once as flaky', async () => {
+    await runTest(createReporter(), makeTest(1, 'flaky'), ['failed', 'passed']);
+
+    const { results } = bodyOf('/api/results') as {
+      results: Array<{ retry: number; isFinalAttempt: boolean; flaky?: boolean }>;
+    };
+    expect(
+      results.map(({ retry, isFinalAttempt, flaky }) => [retry, isFinalAttempt, flaky])
+    ).toEqual([
+      [0, false, undefined],
+      [1, true, true],
+    ]);
+    expect(bodyOf('/api/runs/run-1/complete').summary).toMatchObject({
+      total: 1,
+      passed: 1,
+      failed: 0,
+      flaky: 1,
+    });
+  });
+
+  it('should still upload results when syncing test cases fails', async () => {
+    failingUrls = ['/api/test-cases/sync'];
+    const mappingDir = fs.mkdtempSync(path.join(os.tmpdir(), 'qastudio-reporter-'));
+    const reporter = createReporter({
+      silent: false,
+      syncTestCases: true,
+      testCaseMappingFile: path.join(mappingDir, 'qastudio-test-cases.json'),
+    });
+
+    const beginError = await runTest(reporter, makeTest(0, 'expected'), ['passed']);
+
+    expect(String(beginError)).toContain('Failed to sync test cases');
+    expect(bodyOf('/api/results').results).toHaveLength(1);
+    expect(bodyOf('/api/runs/run-1/complete').summary).toMatchObject({ total: 1, passed: 1 });
+    fs.rmSync(mappingDir, { recursive: true, force: true });
+  });
+
+  it('should carry on when the server cannot take planned tests', async () => {
+    failingUrls = ['/api/runs/run-1/planned-tests'];
+
+    const beginError = await runTest(createReporter({ silent: false }), makeTest(0, 'expected'), [
+      'passed',
+    ]);
+
+    expect(beginError).toBeUndefined();
+    expect(requests.map((request) => request.url)).toEqual([
+      '/api/runs',
+      '/api/runs/run-1/planned-tests',
+      '/api/results',
+      '/api/runs/run-1/complete',
+    ]);
+  });
+
+  it('should spool a result and its attachments when the API returns no result ID', async () => {
+    omitResultIds = true;
+    const spoolDir = fs.mkdtempSync(path.join(os.tmpdir(), 'qastudio-reporter-'));
+
+    await runTest(
+      createReporter({ spoolDir }),
+      makeTest(0, 'expected'),
+      ['passed'],
+      [{ name: 'screenshot', contentType: 'image/png', body: Buffer.from('png') }]
+    );
+
+    expect(requests.map((request) => request.url)).not.toContain('/api/attachments');
+    const [entry] = fs.readdirSync(spoolDir);
+    const manifest = JSON.parse(
+      fs.readFileSync(path.join(spoolDir, entry, 'manifest.json'), 'utf-8')
+    ) as SpoolManifest;
+    expect(manifest).toMatchObject({ completed: false, summary: { total: 1, passed: 1 } });
+    expect(manifest.results).toHaveLength(1);
+    expect(manifest.results[0].testResultId).toBeUndefined();
+    expect(manifest.results[0].attachments.map((attachment) => attachment.name)).toEqual([
+      'screenshot',
+    ]);
+    fs.rmSync(spoolDir, { recursive: true, force: true });
+  });
+
+  it('should leave the run open for replay when some results could not be uploaded', async () => {
+    rejectedTitles = ['refunds'];
+    const spoolDir = fs.mkdtempSync(path.join(os.tmpdir(), 'qastudio-reporter-'));
+    const reporter = createReporter({ spoolDir });
+    const tests = [
+      makeTest(0, 'expected'),
+      { ...makeTest(0, 'expected'), id: 'test-2', title: 'refunds' },
+    ];
+
+    await reporter.onBegin(config, { allTests: () => tests } as unknown as Suite);
+    for (const test of tests) {
+      const result = makeResult('passed', 0);
+      reporter.onTestBegin(test, result);
+      await reporter.onTestEnd(test, result);
+    }
+    await reporter.onEnd({ status: 'passed' } as FullResult);
+
+    expect(requests.map((request) => request.url)).not.toContain('/api/runs/run-1/complete');
+
+    rejectedTitles = [];
+    const [outcome] = await replaySpool({ apiUrl, apiKey: 'key', spoolDir, maxRetries: 1 });
+
+    expect(outcome).toMatchObject({ testRunId: 'run-1', uploaded: 1, failed: 0 });
+    expect(bodyOf('/api/runs/run-1/complete').summary).toMatchObject({ total: 2, passed: 2 });
+    expect(fs.readdirSync(spoolDir)).toEqual([]);
+    fs.rmSync(spoolDir, { recursive: true, force: true });
+  });
+
+  it('should complete the run with the status Playwright ended it with', async () => {
+    await runTest(createReporter(), makeTest(0, 'skipped'), ['interrupted'], [], 'interrupted');
+    const interrupted = bodyOf('/api/runs/run-1/complete');
+    requests = [];
+    await runTest(createReporter(), makeTest(0, 'unexpected'), ['timedOut'], [], 'timedout');
+    const timedOut = bodyOf('/api/runs/run-1/complete');
+
+    expect(interrupted).toMatchObject({
+      status: 'interrupted',
+      summary: { total: 1, interrupted: 1, failed: 0 },
+    });
+    expect(timedOut).toMatchObject({
+      status: 'timedout',
+      summary: { total: 1, interrupted: 0, failed: 1 },
+    });
+  });
+
+  /**
+   * Report run-level errors mentioning a secret, then end the run
+   */
+  const reportRunErrors = async (reporter: QAStudioReporter, count: number) => {
+    await reporter.onBegin(config, { allTests: () => [] } as unknown as Suite);
+    for (let i = 0; i < count; i++) {
+      reporter.onError({
+        message: `globalSetup failed with token s3cr3t-token (${i})`,
+        stack: 'Error: s3cr3t-token\n    at globalSetup.ts:3:9',
+        location: { file: '/repo/tests/global-setup.ts', line: 3, column: 9 },
+      });
+    }
+    await reporter.onEnd({ status: 'failed' } as FullResult);
+  };
+
+  it('should send run-level errors with the completion, redacted and capped', async () => {
+    await reportRunErrors(createReporter({ redactValues: ['s3cr3t-token'] }), 60);
+
+    const completion = bodyOf('/api/runs/run-1/complete');
+    expect(completion).toMatchObject({ status: 'failed', errored: true });
+    expect(completion.errors).toHaveLength(50);
+    expect(completion.errors[0]).toEqual({
+      message: 'globalSetup failed with token [REDACTED] (0)',
+      stack: 'Error: [REDACTED]\n    at globalSetup.ts:3:9',
+      location: { file: '/repo/tests/global-setup.ts', line: 3, column: 9 },
+    });
+    expect(JSON.stringify(requests)).not.toContain('s3cr3t-token');
+  });
+
+  it('should send run-level errors with the shard completion', async () => {
+    const reporter = createReporter({
+      redactValues: ['s3cr3t-token'],
+      mergeShards: true,
+      shardRunKey: 'nightly-7',
+    });
+    const shardedConfig = { ...config, shard: { current: 1, total: 2 } } as FullConfig;
+    await reporter.onBegin(shardedConfig, { allTests: () => [] } as unknown as Suite);
+    reporter.onError({ message: 'Worker crashed: s3cr3t-token' });
+    await reporter.onEnd({ status: 'failed' } as FullResult);
+
+    expect(bodyOf('/api/runs/run-1/shards/complete')).toMatchObject({
+      status: 'failed',
+      errors: [{ message: 'Worker crashed: [REDACTED]' }],
+    });
+  });
+
+  it('should redact secrets from every request, not only results', async () => {
+    vi.stubEnv('GITHUB_ACTIONS', 'true');
+    vi.stubEnv('GITHUB_HEAD_REF', 'fix/s3cr3t-token');
+    const mappingDir = fs.mkdtempSync(path.join(os.tmpdir(), 'qastudio-reporter-'));
+    const mappingFile = path.join(mappingDir, 'qastudio-test-cases.json');
+    const test = {
+      ...makeTest(0, 'expected'),
+      title: 'logs in with s3cr3t-token',
+      titlePath: () => ['', 'chromium', 'login.spec.ts', 'logs in with s3cr3t-token'],
+    } as unknown as TestCase;
+
+    try {
+      await runTest(
+        createReporter({
+          redactValues: ['s3cr3t-token'],
+          captureCIMetadata: true,
+          syncTestCases: true,
+          testCaseMappingFile: mappingFile,
+        }),
+        test,
+        ['passed']
+      );
+
+      expect(requests.map((request) => request.url)).toEqual([
+        '/api/runs',
+        '/api/test-cases/sync',
+        '/api/runs/run-1/planned-tests',
+        '/api/results',
+        '/api/runs/run-1/complete',
+      ]);
+      expect(JSON.stringify(requests)).not.toContain('s3cr3t-token');
+      expect(bodyOf('/api/runs').metadata.branch).toBe('fix/[REDACTED]');
+      expect(bodyOf('/api/test-cases/sync').testCases[0]).toMatchObject({
+        title: 'logs in with [REDACTED]',
+        titlePath: ['logs in with [REDACTED]'],
+      });
+      expect(fs.readFileSync(mappingFile, 'utf-8')).not.toContain('s3cr3t-token');
+      expect(bodyOf('/api/results').results[0].testCaseId).toBe('case-1');
+    } finally {
+      vi.unstubAllEnvs();
+      fs.rmSync(mappingDir, { recursive: true, force: true });
+    }
+  });
+
+  describe('on SIGINT and SIGTERM', () => {
+    let savedListeners: NodeJS.SignalsListener[];
+    let kill: MockInstance<typeof process.kill>;
+
+    beforeEach(() => {
+      // Start without the test runner's own listeners, so the reporter's are the only ones
+      savedListeners = process.listeners('SIGTERM');
+      process.removeAllListeners('SIGTERM');
+      kill = vi.spyOn(process, 'kill').mockImplementation(() => true);
+    });
+
+    afterEach(() => {
+      kill.mockRestore();
+      process.removeAllListeners('SIGTERM');
+      savedListeners.forEach((listener) => process.on('SIGTERM', listener));
+    });
+
+    /**
+     * Start a run with one finished test whose result is still waiting in the batch buffer
+     */
+    const startRun = async () => {
+      const reporter = createReporter({ handleSignals: true, batchFlushInterval: 0 });
+      const test = makeTest(0, 'expected');
+      await reporter.onBegin(config, { allTests: () => [test] } as unknown as Suite);
+      const result = makeResult('passed', 0);
+      reporter.onTestBegin(test, result);
+      await reporter.onTestEnd(test, result);
+      return reporter;
+    };
+
+    it('should only flush pending results when another listener shuts down', async () => {
+      const otherListener = vi.fn();
+      process.on('SIGTERM', otherListener);
+      const reporter = await startRun();
+
+      process.emit('SIGTERM', 'SIGTERM');
+      await vi.waitFor(() => expect(bodyOf('/api/results')?.results).toHaveLength(1));
+
+      expect(otherListener).toHaveBeenCalled();
+      expect(requests.map((request) => request.url)).not.toContain('/api/runs/run-1/complete');
+      expect(kill).not.toHaveBeenCalled();
+
+      await reporter.onEnd({ status: 'interrupted' } as FullResult);
+      expect(bodyOf('/api/runs/run-1/complete').status).toBe('interrupted');
+    });
+
+    it('should abort the run and re-raise the signal when it is the only listener', async () => {
+      const reporter = await startRun();
+
+      process.emit('SIGTERM', 'SIGTERM');
+      await vi.waitFor(() => expect(kill).toHaveBeenCalledWith(process.pid, 'SIGTERM'));
+
+      expect(bodyOf('/api/results').results).toHaveLength(1);
+      expect(bodyOf('/api/runs/run-1/complete')).toMatchObject({
+        status: 'aborted',
+        summary: { total: 1, passed: 1 },
+      });
+      expect(process.listenerCount('SIGTERM')).toBe(0);
+
+      // Playwright's own onEnd must not complete the run a second time
+      await reporter.onEnd({ status: 'interrupted' } as FullResult);
+      expect(requests.filter((request) => request.url === '/api/runs/run-1/complete')).toHaveLength(
+        1
+      );
+    });
+  });
+});
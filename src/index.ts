@@ -4,21 +4,68 @@ import type {
   Suite,
   TestCase,
   TestResult,
+  TestStep,
+  TestError,
   FullResult,
 } from '@playwright/test/reporter';
+import * as path from 'path';
 import { QAStudioAPIClient } from './api-client';
+import { Batcher } from './batcher';
+import { LiveEventStream } from './live';
+import { RecordingAPIClient } from './dry-run';
+import { Redactor, getRedactionRules } from './redaction';
+import {
+  ConsoleRecorder,
+  DEFAULT_MAX_CONSOLE_OUTPUT_BYTES,
+  getConsoleOutputPolicy,
+} from './console-output';
+import { writeSpool } from './spool';
+import {
+  toExportedResult,
+  writeJUnitReport,
+  writeRunExport,
+  type ExportedResult,
+  type RunExport,
+} from './export';
+import { completeShard, resolveShard } from './sharding';
+import { resolveOptions } from './config';
+import { collectCIMetadata, renderTestRunName } from './ci';
+import {
+  collectUnlinkedTests,
+  readTestCaseMapping,
+  syncTestCases,
+  writeTestCaseMapping,
+} from './test-case-sync';
 import type {
   QAStudioReporterOptions,
+  CreateTestRunRequest,
+  CIMetadata,
   ReporterState,
-  QAStudioTestResult,
   UploadFailure,
+  UploadResult,
   PendingUpload,
+  PendingResult,
+  AttachmentUpload,
+  QAStudioTestResult,
+  PlannedTest,
+  CompleteTestRunRequest,
+  ConsoleOutputPolicy,
+  RunError,
+  RunStatus,
+  TestCaseMapping,
 } from './types';
 import {
+  batchArray,
   convertTestResult,
-  extractAttachmentsAsBuffers,
+  extractAttachmentsForUpload,
+  filterAttachments,
   formatDuration,
   generateTestRunName,
+  isFinalAttempt,
+  mapBatchResponse,
+  collectPlannedTests,
+  convertRunError,
+  resolveTestCaseIds,
   validateOptions,
   sanitizeUrl,
   sanitizeString,
@@ -36,48 +83,86 @@ import {
  *   reporter: [
  *     ['@qastudio-dev/playwright', {
  *       apiUrl: 'https://qastudio.dev/api',
- *       apiKey: process.env.QA_STUDIO_API_KEY,
+ *       apiKey: process.env.QASTUDIO_API_KEY,
  *       projectId: 'abc123',
  *       environment: 'CI',
  *     }]
  *   ],
  * });
  * ```
+ *
+ * Options left out here are read from QASTUDIO_* environment variables and
+ * then from a qastudio.config.{ts,js,json} file (see `resolveOptions`).
  */
 export default class QAStudioReporter implements Reporter {
   private options: QAStudioReporterOptions & {
     environment: string;
     createTestRun: boolean;
+    completeTestRun: boolean;
     verbose: boolean;
+    batchSize: number;
+    batchFlushInterval: number;
     uploadScreenshots: boolean;
     uploadVideos: boolean;
+    uploadTraces: 'off' | 'on' | 'on-failure';
     includeErrorSnippet: boolean;
     includeErrorLocation: boolean;
     includeTestSteps: boolean;
-    includeConsoleOutput: boolean;
+    includeConsoleOutput: boolean | ConsoleOutputPolicy;
+    maxConsoleOutputBytes: number;
     maxRetries: number;
     timeout: number;
     silent: boolean;
     testRunName: string;
+    captureCIMetadata: boolean;
+    syncTestCases: boolean;
+    testCaseMappingFile: string;
+    reportPlannedTests: boolean;
+    liveEvents: boolean;
+    heartbeatInterval: number;
+    handleSignals: boolean;
   };
+  private ciMetadata?: CIMetadata;
+  private testCaseMapping?: TestCaseMapping;
+  private testCaseKeys = new Map<string, string>();
+  private plannedTests = 0;
   private apiClient: QAStudioAPIClient;
+  private dryRunClient?: RecordingAPIClient;
+  private batcher: Batcher<PendingResult, UploadResult>;
+  private live?: LiveEventStream;
+  private consoleRecorder?: ConsoleRecorder;
+  private redactor: Redactor;
   private state: ReporterState;
   private totalTests = 0;
   private passedTests = 0;
   private failedTests = 0;
   private skippedTests = 0;
+  private interruptedTests = 0;
+  private flakyTests: Array<{ title: string; retry: number }> = [];
   private flushPromises: PendingUpload[] = [];
   private uploadFailures: UploadFailure[] = [];
+  private unsentResults: PendingResult[] = [];
+  private runErrors: RunError[] = [];
+  private exportedResults: ExportedResult[] = [];
+  private testRunCompleted = false;
+  private finishPromise?: Promise<void>;
+  private signalHandlers = new Map<NodeJS.Signals, () => void>();
   private testRunReadyPromise: Promise<void>;
   private testRunReadyResolve: (() => void) | null = null;
   private testRunCreationError: Error | null = null;
 
   // Constants
   private readonly TEST_RUN_CREATION_ERROR_PREFIX = 'Test run creation failed:';
+  private readonly PLANNED_TESTS_BATCH_SIZE = 500;
+  private readonly MAX_RUN_ERRORS = 50;
+
+  constructor(inlineOptions: Partial<QAStudioReporterOptions> = {}) {
+    // Merge inline options with QASTUDIO_* environment variables and the config file
+    const resolved = resolveOptions(inlineOptions);
 
-  constructor(options: QAStudioReporterOptions) {
     // Validate options
-    validateOptions(options);
+    validateOptions(resolved.options, resolved.sources);
+    const options = resolved.options as QAStudioReporterOptions;
 
     // Sanitize all string options to remove ANSI codes
     const sanitizedOptions = {
@@ -90,6 +175,9 @@ export default class QAStudioReporter implements Reporter {
       testRunName: sanitizeString(options.testRunName) || undefined,
       testRunDescription: sanitizeString(options.testRunDescription) || undefined,
       milestoneId: sanitizeString(options.milestoneId) || undefined,
+      spoolDir: sanitizeString(options.spoolDir) || undefined,
+      outputFile: sanitizeString(options.outputFile) || undefined,
+      junitOutputFile: sanitizeString(options.junitOutputFile) || undefined,
     };
 
     // Set defaults
@@ -97,27 +185,85 @@ export default class QAStudioReporter implements Reporter {
       ...sanitizedOptions,
       environment: sanitizedOptions.environment ?? 'default',
       createTestRun: sanitizedOptions.createTestRun ?? true,
+      completeTestRun: sanitizedOptions.completeTestRun ?? true,
       verbose: sanitizedOptions.verbose ?? false,
+      batchSize: sanitizedOptions.batchSize ?? 50,
+      batchFlushInterval: sanitizedOptions.batchFlushInterval ?? 5000,
       uploadScreenshots: sanitizedOptions.uploadScreenshots ?? true,
       uploadVideos: sanitizedOptions.uploadVideos ?? true,
+      uploadTraces: sanitizedOptions.uploadTraces ?? 'on',
       includeErrorSnippet: sanitizedOptions.includeErrorSnippet ?? true,
       includeErrorLocation: sanitizedOptions.includeErrorLocation ?? true,
       includeTestSteps: sanitizedOptions.includeTestSteps ?? true,
       filterFixtureSteps: sanitizedOptions.filterFixtureSteps ?? true,
       includeConsoleOutput: sanitizedOptions.includeConsoleOutput ?? false,
+      maxConsoleOutputBytes:
+        sanitizedOptions.maxConsoleOutputBytes ?? DEFAULT_MAX_CONSOLE_OUTPUT_BYTES,
       maxRetries: sanitizedOptions.maxRetries ?? 3,
       timeout: sanitizedOptions.timeout ?? 30000,
       silent: sanitizedOptions.silent ?? true,
-      testRunName: sanitizedOptions.testRunName ?? generateTestRunName(),
+      captureCIMetadata: sanitizedOptions.captureCIMetadata ?? true,
+      syncTestCases: sanitizedOptions.syncTestCases ?? false,
+      reportPlannedTests: sanitizedOptions.reportPlannedTests ?? true,
+      liveEvents: sanitizedOptions.liveEvents ?? false,
+      heartbeatInterval: sanitizedOptions.heartbeatInterval ?? 15000,
+      handleSignals: sanitizedOptions.handleSignals ?? true,
+      testCaseMappingFile: sanitizedOptions.testCaseMappingFile ?? 'qastudio-test-cases.json',
+      testRunName: generateTestRunName(),
     };
 
+    if (this.options.captureCIMetadata) {
+      this.ciMetadata = collectCIMetadata();
+    }
+    if (sanitizedOptions.testRunName) {
+      this.options.testRunName =
+        renderTestRunName(
+          sanitizedOptions.testRunName,
+          this.ciMetadata ?? {},
+          this.options.environment
+        ) || this.options.testRunName;
+    }
+
     // Initialize promise that resolves when test run is ready
     // IMPORTANT: This must be done before creating apiClient to prevent race conditions
     this.testRunReadyPromise = new Promise<void>((resolve) => {
       this.testRunReadyResolve = resolve;
     });
 
-    this.apiClient = new QAStudioAPIClient(this.options);
+    this.redactor = new Redactor(getRedactionRules(this.options));
+    if (this.options.dryRun) {
+      this.dryRunClient = new RecordingAPIClient(this.options);
+      this.apiClient = this.dryRunClient;
+    } else {
+      this.apiClient = new QAStudioAPIClient(this.options);
+    }
+
+    this.batcher = new Batcher<PendingResult, UploadResult>({
+      batchSize: this.options.batchSize,
+      flushInterval: this.options.batchFlushInterval,
+      handler: (batch) => this.submitBatch(batch),
+    });
+
+    if (this.options.liveEvents) {
+      this.live = new LiveEventStream({
+        apiClient: this.apiClient,
+        getTestRunId: async () => {
+          await this.testRunReadyPromise;
+          return this.state.testRunId;
+        },
+        heartbeatInterval: this.options.heartbeatInterval,
+        filterFixtureSteps: this.options.filterFixtureSteps,
+        redactor: this.redactor,
+        onError: (error) =>
+          this.log(
+            `Failed to send live events: ${error instanceof Error ? error.message : String(error)}`
+          ),
+      });
+    }
+
+    if (getConsoleOutputPolicy(this.options) !== 'never') {
+      this.consoleRecorder = new ConsoleRecorder(this.options.maxConsoleOutputBytes);
+    }
 
     this.state = {
       tests: new Map(),
@@ -132,23 +278,43 @@ export default class QAStudioReporter implements Reporter {
   /**
    * Called once before running tests
    */
-  async onBegin(_config: FullConfig, _suite: Suite): Promise<void> {
+  async onBegin(config: FullConfig, suite: Suite): Promise<void> {
     this.state.startTime = new Date();
-    this.log('Test run starting...');
+    this.state.playwrightVersion = config.version;
+    this.state.rootDir = config.rootDir;
+    this.plannedTests = suite.allTests().length;
+    this.log(`Test run starting with ${this.plannedTests} planned test(s)...`);
+    this.live?.start();
+    if (this.options.handleSignals) {
+      this.registerSignalHandlers();
+    }
+
+    if (this.options.mergeShards) {
+      try {
+        this.state.shard = resolveShard(config.shard, this.options.shardRunKey);
+        if (this.state.shard) {
+          this.log(
+            `Shard ${this.state.shard.current}/${this.state.shard.total} of merged run ${this.state.shard.key}`
+          );
+        }
+      } catch (error) {
+        console.warn(
+          `[QAStudio.dev Reporter] ${error instanceof Error ? error.message : String(error)} Reporting this shard as a separate test run.`
+        );
+      }
+    }
 
     try {
       // Create test run if needed
       if (this.options.createTestRun && !this.options.testRunId) {
-        const response = await this.apiClient.createTestRun({
-          projectId: this.options.projectId,
-          name: this.options.testRunName,
-          description: this.options.testRunDescription,
-          environment: this.options.environment,
-          milestoneId: this.options.milestoneId,
-        });
+        const response = await this.apiClient.createTestRun(this.buildCreateTestRunRequest());
 
         this.state.testRunId = response.id;
-        this.log(`Created test run with ID: ${this.state.testRunId}`);
+        this.log(
+          this.state.shard
+            ? `Attached to merged test run with ID: ${this.state.testRunId}`
+            : `Created test run with ID: ${this.state.testRunId}`
+        );
       } else {
         this.state.testRunId = this.options.testRunId;
         this.log(`Using existing test run ID: ${this.state.testRunId}`);
@@ -158,9 +324,106 @@ export default class QAStudioReporter implements Reporter {
       this.testRunCreationError = error instanceof Error ? error : new Error(String(error));
       this.handleError('Failed to create test run', error);
     } finally {
-      // Signal that test run is ready (or failed, but either way we're done)
-      this.testRunReadyResolve?.();
-      this.log('Test run ready signal sent');
+      try {
+        // Results wait for test case IDs, so sync before signalling readiness
+        if (this.options.syncTestCases) {
+          await this.syncTestCases(config, suite);
+        }
+        if (this.options.reportPlannedTests && this.state.testRunId) {
+          await this.reportPlannedTests(suite);
+        }
+      } finally {
+        // Signal that test run is ready (or failed, but either way we're done),
+        // even if a step above threw, so queued results don't wait forever
+        this.testRunReadyResolve?.();
+        this.log('Test run ready signal sent');
+      }
+    }
+  }
+
+  /**
+   * Create or match test cases for tests without a test case ID and update the mapping file
+   */
+  private async syncTestCases(config: FullConfig, suite: Suite): Promise<void> {
+    try {
+      const mappingFile = path.resolve(this.options.testCaseMappingFile);
+      const existing = readTestCaseMapping(mappingFile);
+      if (existing && existing.projectId !== this.options.projectId) {
+        console.warn(
+          `[QAStudio.dev Reporter] ${mappingFile} belongs to project ${existing.projectId}, ignoring it`
+        );
+      }
+      const mapping: TestCaseMapping =
+        existing?.projectId === this.options.projectId
+          ? existing
+          : { version: 1, projectId: this.options.projectId, testCases: {} };
+      this.testCaseMapping = mapping;
+
+      const entries = collectUnlinkedTests(
+        suite,
+        config.rootDir,
+        (test) => resolveTestCaseIds(test, this.options).length > 0
+      );
+      // Keys are redacted too, so the mapping file never holds a secret from a title
+      for (const [testId, entry] of entries) {
+        const redacted = this.redactor.redactObject(entry);
+        entries.set(testId, redacted);
+        this.testCaseKeys.set(testId, redacted.key);
+      }
+
+      const { created, matched } = await syncTestCases(
+        this.apiClient,
+        mapping,
+        entries.values(),
+        this.options.batchSize
+      );
+      if (created > 0 || matched > 0) {
+        writeTestCaseMapping(mappingFile, mapping);
+      }
+      this.log(
+        `Synced test cases: ${created} created, ${matched} matched, ${entries.size} test(s) without an ID`
+      );
+    } catch (error) {
+      this.handleError('Failed to sync test cases', error);
+    }
+  }
+
+  /**
+   * Send the tests planned for this run, so QAStudio.dev can track progress
+   *
+   * Failures only print a warning, even when `silent` is off: progress tracking is
+   * optional, and older servers don't have the planned tests endpoint.
+   */
+  private async reportPlannedTests(suite: Suite): Promise<void> {
+    try {
+      const tests = this.redactor.redactObject(
+        collectPlannedTests(suite, this.options, this.state.rootDir)
+      );
+      tests.forEach((test) => this.linkTestCase(test));
+
+      for (const batch of batchArray(tests, this.PLANNED_TESTS_BATCH_SIZE)) {
+        await this.apiClient.submitPlannedTests({ testRunId: this.state.testRunId!, tests: batch });
+      }
+      this.log(`Reported ${tests.length} planned test(s)`);
+    } catch (error) {
+      console.warn(
+        `[QAStudio.dev Reporter] Failed to report planned tests: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Link a result without a test case ID to the test case created or matched by sync mode
+   */
+  private linkTestCase(result: QAStudioTestResult | PlannedTest): void {
+    if (!this.testCaseMapping || result.testCaseIds || !result.playwrightTestId) {
+      return;
+    }
+    const key = this.testCaseKeys.get(result.playwrightTestId);
+    const testCaseId = key ? this.testCaseMapping.testCases[key] : undefined;
+    if (testCaseId) {
+      result.testCaseId = testCaseId;
+      result.testCaseIds = [testCaseId];
     }
   }
 
@@ -168,22 +431,55 @@ export default class QAStudioReporter implements Reporter {
    * Called when a test begins
    */
   onTestBegin(test: TestCase, result: TestResult): void {
-    const testId = this.getTestId(test);
-    this.state.tests.set(testId, {
+    this.state.tests.set(test.id, {
       test,
       result,
       startTime: new Date(),
     });
+    this.live?.testBegin(test, result);
 
     this.log(`Test started: ${test.title}`);
   }
 
+  /**
+   * Called when a test step begins
+   */
+  onStepBegin(test: TestCase, result: TestResult, step: TestStep): void {
+    this.live?.stepBegin(test, result, step);
+  }
+
+  /**
+   * Called when a test step ends
+   */
+  onStepEnd(test: TestCase, result: TestResult, step: TestStep): void {
+    this.live?.stepEnd(test, result, step);
+  }
+
+  /**
+   * Called when a test writes to stdout
+   */
+  onStdOut(chunk: string | Buffer, test?: TestCase, result?: TestResult): void {
+    if (test && result) {
+      this.consoleRecorder?.write('stdout', chunk, test, result);
+    }
+  }
+
+  /**
+   * Called when a test writes to stderr
+   */
+  onStdErr(chunk: string | Buffer, test?: TestCase, result?: TestResult): void {
+    if (test && result) {
+      this.consoleRecorder?.write('stderr', chunk, test, result);
+    }
+  }
+
   /**
    * Called when a test ends
    */
   async onTestEnd(test: TestCase, result: TestResult): Promise<void> {
-    const testId = this.getTestId(test);
-    const testData = this.state.tests.get(testId);
+    this.live?.testEnd(test, result);
+
+    const testData = this.state.tests.get(test.id);
 
     if (!testData) {
       this.log(`Warning: Test data not found for ${test.title}`);
@@ -194,11 +490,14 @@ export default class QAStudioReporter implements Reporter {
     testData.result = result;
     testData.endTime = new Date();
 
-    // Update counters (only count final result, not retries)
-    if (result.retry === test.retries) {
+    // Every attempt is uploaded, but only the final attempt counts towards the totals
+    const finalAttempt = isFinalAttempt(test, result);
+    const resultTitle = result.retry > 0 ? `${test.title} (retry ${result.retry})` : test.title;
+
+    if (finalAttempt) {
       this.totalTests++;
       this.log(
-        `[onTestEnd] Final retry for test #${this.totalTests}: ${test.title} (retry ${result.retry}/${test.retries})`
+        `[onTestEnd] Final attempt for test #${this.totalTests}: ${test.title} (retry ${result.retry}/${test.retries})`
       );
 
       switch (result.status) {
@@ -210,95 +509,142 @@ export default class QAStudioReporter implements Reporter {
           this.failedTests++;
           break;
         case 'skipped':
-        case 'interrupted':
           this.skippedTests++;
           break;
+        case 'interrupted':
+          this.interruptedTests++;
+          break;
       }
+    } else {
+      this.log(
+        `[onTestEnd] Attempt ${result.retry}/${test.retries} will be retried: ${test.title}`
+      );
+    }
 
-      // Wait for test run to be ready before sending results
-      this.log(`[onTestEnd] Preparing to send test #${this.totalTests}: ${test.title}`);
-      const qaResult = convertTestResult(test, result, testData.startTime, this.options);
-
-      // Extract attachments separately for multipart upload
-      const attachmentBuffers = extractAttachmentsAsBuffers(result);
-
-      // Filter attachments based on options
-      const filteredAttachments = attachmentBuffers.filter((att) => {
-        if (att.type === 'screenshot' && !this.options.uploadScreenshots) {
-          return false;
-        }
-        if (att.type === 'video' && !this.options.uploadVideos) {
-          return false;
-        }
-        return true;
-      });
+    // Convert result for batched submission
+    this.log(`[onTestEnd] Preparing to send: ${resultTitle}`);
+    const qaResult = convertTestResult(test, result, testData.startTime, this.options, {
+      consoleChunks: this.consoleRecorder?.take(test, result),
+      redactor: this.redactor,
+      rootDir: this.state.rootDir,
+    });
 
-      // Remove attachments from result (will upload separately)
-      delete qaResult.attachments;
+    if (qaResult.flaky) {
+      this.flakyTests.push({ title: qaResult.fullTitle, retry: result.retry });
+    }
 
-      // Normalize test status for failure tracking
-      const testStatus = this.normalizeTestStatus(result.status);
+    // Extract attachments separately for multipart upload
+    const attachmentUploads = extractAttachmentsForUpload(result);
 
-      // Send result immediately (fire-and-forget, don't block test execution)
-      // Wait for test run to be ready, then send result
-      // Convert to a promise that always fulfills (never rejects) to avoid unhandled rejections
-      const sendPromise = this.testRunReadyPromise
-        .then(() => {
-          if (!this.state.testRunId) {
-            // Provide detailed error with root cause if available
-            const errorMessage = this.getTestRunCreationErrorMessage();
-            if (errorMessage) {
-              throw new Error(errorMessage);
-            }
-            throw new Error('Test run was not created successfully');
-          }
-          return this.sendTestResult(qaResult, filteredAttachments);
-        })
-        .then(() => ({ success: true as const }))
-        .catch((error: unknown) => {
-          const errorMessage = error instanceof Error ? error.message : String(error);
+    // Filter attachments based on options
+    const filteredAttachments = filterAttachments(
+      test,
+      result,
+      attachmentUploads,
+      this.options,
+      this.state.playwrightVersion
+    ).map((attachment) => ({ ...attachment, name: this.redactor.redact(attachment.name) }));
+
+    // Normalize test status for failure tracking
+    const testStatus = this.normalizeTestStatus(result.status);
+
+    // Queue result for batched submission (don't block test execution)
+    // Convert to a promise that always fulfills (never rejects) to avoid unhandled rejections
+    const pendingResult: PendingResult = { result: qaResult, attachments: filteredAttachments };
+    if (this.options.outputFile || this.options.junitOutputFile) {
+      this.exportedResults.push(toExportedResult(pendingResult));
+    }
+    const sendPromise = this.batcher
+      .add(pendingResult)
+      .catch((error: unknown): UploadResult => {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          success: false as const,
+          error: errorMessage,
+        };
+      })
+      .then((uploadResult): UploadResult => {
+        if (!uploadResult.success) {
           // Log upload failure in verbose mode for debugging
           if (this.options.verbose) {
-            this.log(`Upload failed for ${test.title}: ${errorMessage}`);
+            this.log(`Upload failed for ${resultTitle}: ${uploadResult.error}`);
+          }
+          // Keep the result so it can be written to the spool directory in onEnd
+          if (this.options.spoolDir) {
+            this.unsentResults.push(pendingResult);
           }
-          return {
-            success: false as const,
-            error: errorMessage,
-          };
-        });
-
-      // Track the promise with metadata so we can collect failures in onEnd
-      this.flushPromises.push({
-        promise: sendPromise,
-        testTitle: test.title,
-        status: testStatus,
+        }
+        return uploadResult;
       });
-      this.log(
-        `[onTestEnd] Promise tracked for test #${this.totalTests}: ${test.title} (total tracked: ${this.flushPromises.length})`
-      );
-    } else {
-      this.log(`[onTestEnd] Skipping retry ${result.retry}/${test.retries} for: ${test.title}`);
-    }
+
+    // Track the promise with metadata so we can collect failures in onEnd
+    this.flushPromises.push({
+      promise: sendPromise,
+      testTitle: resultTitle,
+      status: testStatus,
+      isFinalAttempt: finalAttempt,
+      flaky: qaResult.flaky === true,
+    });
+    this.log(
+      `[onTestEnd] Promise tracked for ${resultTitle} (total tracked: ${this.flushPromises.length})`
+    );
 
     this.log(
       `Test ended: ${test.title} - ${result.status} (${result.duration}ms) [retry: ${result.retry}/${test.retries}]`
     );
   }
 
+  /**
+   * Called on errors outside of tests: global setup/teardown failures, worker
+   * crashes and spec files that fail to load
+   */
+  onError(error: TestError): void {
+    this.log(`Run-level error: ${error.message ?? error.value}`);
+    if (this.runErrors.length < this.MAX_RUN_ERRORS) {
+      this.runErrors.push(this.redactor.redactObject(convertRunError(error)));
+    }
+  }
+
   /**
    * Called after all tests have finished
    */
-  async onEnd(_result: FullResult): Promise<void> {
+  async onEnd(result: FullResult): Promise<void> {
+    // A signal handler may already be finishing the run
+    this.finishPromise ??= this.finishRun(result.status);
+    await this.finishPromise;
+  }
+
+  /**
+   * Flush results, complete the test run with its final status and spool what could not be sent
+   */
+  private async finishRun(status: RunStatus): Promise<void> {
     this.state.endTime = new Date();
     const duration = this.state.endTime.getTime() - (this.state.startTime?.getTime() ?? 0);
 
-    this.log('Test run completed');
+    this.log(`Test run finished with status: ${status}`);
     this.log(
-      `Total: ${this.totalTests}, Passed: ${this.passedTests}, Failed: ${this.failedTests}, Skipped: ${this.skippedTests}`
+      `Total: ${this.totalTests}, Passed: ${this.passedTests}, Failed: ${this.failedTests}, Skipped: ${this.skippedTests}, Interrupted: ${this.interruptedTests}, Flaky: ${this.flakyTests.length}, Not run: ${this.getNotRunCount()}`
     );
     this.log(`Duration: ${formatDuration(duration)}`);
+    if (this.redactor.count > 0) {
+      this.log(`Redacted ${this.redactor.count} secret(s) from uploaded data`);
+    }
+
+    // Always list flaky tests (not just in verbose mode) so they can be triaged
+    if (this.flakyTests.length > 0) {
+      console.warn(
+        `\n[QAStudio.dev Reporter] ${this.flakyTests.length} flaky test(s) passed only after retrying:\n`
+      );
+      this.flakyTests.forEach((flaky) => {
+        console.warn(`  - ${flaky.title} (passed on retry ${flaky.retry})`);
+      });
+      console.warn('');
+    }
 
     try {
+      // Send the last live events before the run is completed
+      await this.live?.stop();
+
       // Send test results to QAStudio.dev
       await this.sendTestResults();
 
@@ -330,7 +676,7 @@ export default class QAStudioReporter implements Reporter {
             console.warn(`    Error: ${failure.error}\n`);
           });
           console.warn(
-            `[QAStudio.dev Reporter] Test run may be incomplete. Expected ${this.totalTests} tests, but ${this.uploadFailures.length} failed to upload.\n`
+            `[QAStudio.dev Reporter] Test run may be incomplete. Expected ${this.totalTests} tests, but ${this.getFinalUploadFailures().length} failed to upload.\n`
           );
         }
       }
@@ -340,18 +686,56 @@ export default class QAStudioReporter implements Reporter {
         // Calculate actual uploaded counts (excluding failures)
         const actualUploaded = this.calculateUploadedCounts();
 
-        await this.apiClient.completeTestRun({
-          testRunId: this.state.testRunId,
-          summary: {
-            total: actualUploaded.total,
-            passed: actualUploaded.passed,
-            failed: actualUploaded.failed,
-            skipped: actualUploaded.skipped,
-            duration,
-          },
-        });
+        const summary = {
+          total: actualUploaded.total,
+          passed: actualUploaded.passed,
+          failed: actualUploaded.failed,
+          skipped: actualUploaded.skipped,
+          flaky: actualUploaded.flaky,
+          interrupted: actualUploaded.interrupted,
+          duration,
+          planned: this.plannedTests,
+          notRun: this.getNotRunCount(),
+        };
+
+        // Replaying the spool uploads the rest and completes the run with the full totals
+        const resultsLeftForReplay =
+          !!this.options.spoolDir && this.unsentResults.some((item) => !item.testResultId);
+
+        if (!this.options.completeTestRun) {
+          this.log('Leaving the test run open to be completed by another step');
+        } else if (resultsLeftForReplay) {
+          this.log('Leaving the test run open until the spooled results are replayed');
+        } else if (this.state.shard) {
+          // Only the last shard to finish completes the merged run
+          const runCompleted = await completeShard(
+            this.apiClient,
+            this.state.testRunId,
+            this.state.shard,
+            summary,
+            { status, errors: this.getRunErrors() }
+          );
+          this.log(
+            runCompleted
+              ? 'Last shard finished, merged test run completed successfully'
+              : `Shard ${this.state.shard.current}/${this.state.shard.total} reported, waiting for remaining shards`
+          );
+        } else {
+          await this.apiClient.completeTestRun({
+            testRunId: this.state.testRunId,
+            status,
+            errored: this.runErrors.length > 0,
+            errors: this.getRunErrors(),
+            summary,
+          });
+          this.log('Test run completed successfully');
+        }
 
-        this.log('Test run completed successfully');
+        this.testRunCompleted = this.options.completeTestRun && !resultsLeftForReplay;
+
+        if (this.dryRunClient) {
+          return;
+        }
 
         // Extract base URL from API URL (remove /api suffix)
         const baseUrl = this.options.apiUrl.replace(/\/api\/?$/, '');
@@ -362,7 +746,7 @@ export default class QAStudioReporter implements Reporter {
 
         if (this.uploadFailures.length > 0) {
           console.log(
-            `[QAStudio.dev Reporter] ${this.totalTests - this.uploadFailures.length}/${this.totalTests} tests uploaded successfully\n`
+            `[QAStudio.dev Reporter] ${actualUploaded.total}/${this.totalTests} tests uploaded successfully\n`
           );
         } else {
           console.log(
@@ -372,13 +756,68 @@ export default class QAStudioReporter implements Reporter {
       }
     } catch (error) {
       this.handleError('Failed to send test results', error);
+    } finally {
+      if (this.dryRunClient) {
+        this.printDryRunSummary(this.dryRunClient);
+      }
+      this.writeRunExports(duration, status);
+      this.spoolUnsentResults(duration, status);
+      this.removeSignalHandlers();
+    }
+  }
+
+  /**
+   * Flush pending uploads when the process receives SIGINT or SIGTERM
+   *
+   * Playwright handles SIGINT itself and still calls onEnd, so when another
+   * listener exists the reporter only flushes early. When the reporter is the
+   * only listener, the process would otherwise die: the run is finished with
+   * status 'aborted' and the signal is re-raised to exit as usual.
+   */
+  private registerSignalHandlers(): void {
+    for (const signal of ['SIGINT', 'SIGTERM'] as NodeJS.Signals[]) {
+      const handler = () => {
+        void this.handleSignal(signal);
+      };
+      this.signalHandlers.set(signal, handler);
+      process.once(signal, handler);
+    }
+  }
+
+  /**
+   * Respond to a termination signal (see registerSignalHandlers)
+   */
+  private async handleSignal(signal: NodeJS.Signals): Promise<void> {
+    console.warn(`\n[QAStudio.dev Reporter] Received ${signal}, flushing pending uploads...`);
+
+    if (process.listenerCount(signal) > 0) {
+      // Someone else shuts down gracefully and will call onEnd
+      await this.batcher.flush();
+      return;
     }
+
+    this.finishPromise ??= this.finishRun('aborted');
+    await this.finishPromise;
+    process.kill(process.pid, signal);
+  }
+
+  /**
+   * Remove the signal handlers that have not fired yet
+   */
+  private removeSignalHandlers(): void {
+    for (const [signal, handler] of this.signalHandlers) {
+      process.removeListener(signal, handler);
+    }
+    this.signalHandlers.clear();
   }
 
   /**
    * Wait for all pending result submissions to complete and collect failures
    */
   private async sendTestResults(): Promise<void> {
+    // Send whatever is still buffered, even if it is less than a full batch
+    await this.batcher.flush();
+
     // Wait for all pending submissions to complete (even if no test run ID)
     // The promises themselves will fail appropriately if test run creation failed
     if (this.flushPromises.length > 0) {
@@ -397,6 +836,8 @@ export default class QAStudioReporter implements Reporter {
             testTitle: item.testTitle,
             error: result.error,
             status: item.status,
+            isFinalAttempt: item.isFinalAttempt,
+            flaky: item.flaky,
           });
 
           // Log in verbose mode
@@ -416,84 +857,236 @@ export default class QAStudioReporter implements Reporter {
   }
 
   /**
-   * Send a single test result to the API
+   * Submit a batch of test results to the API and upload their attachments
+   *
+   * Resolves with one upload result per batch entry. Throws (failing the whole
+   * batch) if the test run is unavailable or the submission request itself fails.
    */
-  private async sendTestResult(
-    result: QAStudioTestResult,
-    attachments: Array<{
-      name: string;
-      contentType: string;
-      data: Buffer;
-      type: 'screenshot' | 'video' | 'trace' | 'other';
-    }>
-  ): Promise<void> {
+  private async submitBatch(batch: PendingResult[]): Promise<UploadResult[]> {
+    // Wait for test run to be ready before sending results
+    await this.testRunReadyPromise;
+    batch.forEach((item) => this.linkTestCase(item.result));
+
     if (!this.state.testRunId) {
-      return;
+      // Provide detailed error with root cause if available
+      const errorMessage = this.getTestRunCreationErrorMessage();
+      if (errorMessage) {
+        throw new Error(errorMessage);
+      }
+      throw new Error('Test run was not created successfully');
     }
 
-    this.log(`Sending result: ${result.title}`);
+    const results = batch.map((item) => item.result);
+    this.log(`Sending batch of ${results.length} result(s)`);
 
-    // Send single result to API
     const response = await this.apiClient.submitTestResults({
       testRunId: this.state.testRunId,
-      results: [result],
+      results,
     });
 
-    this.log(`Result submitted: ${result.title} (${response.processedCount} processed)`);
+    this.log(`Batch submitted (${response.processedCount} processed)`);
 
     // Check for errors
     if (response.errors && response.errors.length > 0) {
       response.errors.forEach((err) => {
-        this.log(`  Error: ${err.error}`);
+        this.log(`  Error: ${err.testTitle}: ${err.error}`);
       });
     }
 
-    // Upload attachments if we have result IDs
-    if (response.results && response.results.length > 0 && attachments.length > 0) {
-      const testResultId = response.results[0].testResultId;
-      await this.uploadAttachments(testResultId, attachments);
-    }
+    // Upload attachments for each result that was assigned an ID
+    const mapped = mapBatchResponse(results, response);
+    return Promise.all(
+      batch.map(async (item, index): Promise<UploadResult> => {
+        const { testResultId, error } = mapped[index];
+        if (error) {
+          return { success: false, error };
+        }
+        if (testResultId && item.attachments.length > 0) {
+          const failed = await this.uploadAttachments(testResultId, item.attachments);
+          // Keep failed attachments so they can be uploaded to the same result on replay
+          if (failed.length > 0 && this.options.spoolDir) {
+            this.unsentResults.push({ result: item.result, attachments: failed, testResultId });
+          }
+        }
+        return { success: true };
+      })
+    );
   }
 
   /**
    * Upload attachments for a test result in parallel
+   *
+   * @returns Attachments that failed to upload
    */
   private async uploadAttachments(
     testResultId: string,
-    attachments: Array<{
-      name: string;
-      contentType: string;
-      data: Buffer;
-      type: 'screenshot' | 'video' | 'trace' | 'other';
-    }>
-  ): Promise<void> {
+    attachments: AttachmentUpload[]
+  ): Promise<AttachmentUpload[]> {
     if (attachments.length === 0) {
-      return;
+      return [];
     }
 
     this.log(`Uploading ${attachments.length} attachments for result ${testResultId}`);
 
     // Upload attachments in parallel
+    const failed: AttachmentUpload[] = [];
     const uploadPromises = attachments.map((attachment) =>
       this.apiClient
         .uploadAttachment(
           testResultId,
           attachment.name,
           attachment.contentType,
-          attachment.data,
-          attachment.type
+          attachment.path ?? attachment.data ?? Buffer.alloc(0),
+          attachment.type,
+          attachment.metadata
         )
         .then(() => {
-          this.log(`Uploaded: ${attachment.name} (${attachment.data.length} bytes)`);
+          this.log(`Uploaded: ${attachment.name} (${attachment.size} bytes)`);
         })
         .catch((error) => {
           this.log(`Failed to upload ${attachment.name}:`, error);
           // Don't throw - continue with other attachments
+          failed.push(attachment);
         })
     );
 
     await Promise.allSettled(uploadPromises);
     this.log(`Finished uploading ${attachments.length} attachments`);
+    return failed;
+  }
+
+  /**
+   * Build the request used to create the test run, with secrets redacted
+   */
+  private buildCreateTestRunRequest(): CreateTestRunRequest {
+    return this.redactor.redactObject({
+      projectId: this.options.projectId,
+      name: this.options.testRunName,
+      description: this.options.testRunDescription,
+      environment: this.options.environment,
+      milestoneId: this.options.milestoneId,
+      metadata: this.ciMetadata,
+      shard: this.state.shard,
+    });
+  }
+
+  /**
+   * Print what the run would have sent and any payload problems found
+   */
+  private printDryRunSummary(client: RecordingAPIClient): void {
+    console.log('\n[QAStudio.dev Reporter] Dry run, nothing was sent to QAStudio.dev:');
+    client.describe().forEach((line) => console.log(`  - ${line}`));
+
+    const { issues } = client.recording;
+    if (issues.length > 0) {
+      console.warn(`\n[QAStudio.dev Reporter] ${issues.length} payload problem(s) found:`);
+      issues.forEach((issue) => console.warn(`  - ${issue}`));
+    }
+    console.log('');
+  }
+
+  /**
+   * Summary of the whole local run, including results that could not be uploaded
+   */
+  private buildRunSummary(duration: number): CompleteTestRunRequest['summary'] {
+    return {
+      total: this.totalTests,
+      passed: this.passedTests,
+      failed: this.failedTests,
+      skipped: this.skippedTests,
+      flaky: this.flakyTests.length,
+      interrupted: this.interruptedTests,
+      duration,
+      planned: this.plannedTests,
+      notRun: this.getNotRunCount(),
+    };
+  }
+
+  /**
+   * Write the run to `outputFile` (JSON) and `junitOutputFile` (JUnit XML)
+   *
+   * Written whether or not the API could be reached, so CI can archive it.
+   */
+  private writeRunExports(duration: number, status: RunStatus): void {
+    const { outputFile, junitOutputFile } = this.options;
+    if (!outputFile && !junitOutputFile) {
+      return;
+    }
+
+    const runExport: RunExport = {
+      version: 1,
+      createdAt: new Date().toISOString(),
+      testRunId: this.state.testRunId,
+      testRun: this.buildCreateTestRunRequest(),
+      status,
+      summary: this.buildRunSummary(duration),
+      errors: this.getRunErrors(),
+      results: this.exportedResults,
+    };
+
+    const outputs: Array<[string | undefined, (file: string, data: RunExport) => void]> = [
+      [outputFile, writeRunExport],
+      [junitOutputFile, writeJUnitReport],
+    ];
+    for (const [file, write] of outputs) {
+      if (!file) {
+        continue;
+      }
+      try {
+        write(path.resolve(file), runExport);
+        this.log(`Wrote run export to ${path.resolve(file)}`);
+      } catch (error) {
+        console.warn(
+          `[QAStudio.dev Reporter] Failed to write ${file}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+  }
+
+  /**
+   * Write results that could not be uploaded to the spool directory for later replay
+   *
+   * Also spools an unfinished test run with no pending results, so replay can complete it.
+   */
+  private spoolUnsentResults(duration: number, status: RunStatus): void {
+    if (!this.options.spoolDir) {
+      return;
+    }
+
+    const runNeedsCompletion =
+      this.options.completeTestRun && !!this.state.testRunId && !this.testRunCompleted;
+    if (this.unsentResults.length === 0 && !runNeedsCompletion) {
+      return;
+    }
+
+    try {
+      const entryDir = writeSpool(
+        this.options.spoolDir,
+        {
+          projectId: this.options.projectId,
+          testRunId: this.state.testRunId,
+          testRun: this.buildCreateTestRunRequest(),
+          summary: this.buildRunSummary(duration),
+          status,
+          errors: this.getRunErrors(),
+          completed: this.testRunCompleted || !this.options.completeTestRun,
+        },
+        this.unsentResults
+      );
+
+      const attachmentsOnly = this.unsentResults.filter((item) => item.testResultId).length;
+      console.warn(
+        `[QAStudio.dev Reporter] ${this.unsentResults.length - attachmentsOnly} unsent test result(s)${attachmentsOnly > 0 ? ` and the attachments of ${attachmentsOnly} uploaded result(s)` : ''} saved to ${entryDir}`
+      );
+      console.warn(
+        `[QAStudio.dev Reporter] Upload them later with: npx qastudio-playwright replay ${this.options.spoolDir}\n`
+      );
+      this.unsentResults = [];
+    } catch (error) {
+      console.error(
+        `[QAStudio.dev Reporter] Failed to write spool directory: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
   }
 
   /**
@@ -508,14 +1101,18 @@ export default class QAStudioReporter implements Reporter {
   /**
    * Normalize Playwright test status to one of three categories for reporting
    */
-  private normalizeTestStatus(status: TestResult['status']): 'passed' | 'failed' | 'skipped' {
+  private normalizeTestStatus(
+    status: TestResult['status']
+  ): 'passed' | 'failed' | 'skipped' | 'interrupted' {
     if (status === 'passed') {
       return 'passed';
     }
     if (status === 'failed' || status === 'timedOut') {
       return 'failed';
     }
-    // 'skipped' or 'interrupted'
+    if (status === 'interrupted') {
+      return 'interrupted';
+    }
     return 'skipped';
   }
 
@@ -525,36 +1122,58 @@ export default class QAStudioReporter implements Reporter {
    * This ensures that the summary sent to the API accurately reflects only the tests
    * that were successfully uploaded. Each status counter is reduced by the number of
    * failed uploads for that status, ensuring total = passed + failed + skipped.
+   * Only final attempts are counted; a lost upload of an earlier retry attempt
+   * doesn't change the test's outcome.
    */
   private calculateUploadedCounts(): {
     total: number;
     passed: number;
     failed: number;
     skipped: number;
+    interrupted: number;
+    flaky: number;
   } {
+    const finalFailures = this.getFinalUploadFailures();
+
     // Count failures by status
-    const failuresByStatus = this.uploadFailures.reduce(
+    const failuresByStatus = finalFailures.reduce(
       (acc, failure) => {
         acc[failure.status]++;
         return acc;
       },
-      { passed: 0, failed: 0, skipped: 0 }
+      { passed: 0, failed: 0, skipped: 0, interrupted: 0 }
     );
 
     // Subtract failures from each status counter
     return {
-      total: this.totalTests - this.uploadFailures.length,
+      total: this.totalTests - finalFailures.length,
       passed: this.passedTests - failuresByStatus.passed,
       failed: this.failedTests - failuresByStatus.failed,
       skipped: this.skippedTests - failuresByStatus.skipped,
+      interrupted: this.interruptedTests - failuresByStatus.interrupted,
+      flaky: this.flakyTests.length - finalFailures.filter((failure) => failure.flaky).length,
     };
   }
 
   /**
-   * Get unique test ID
+   * Run-level errors for the completion request, or undefined if there were none
+   */
+  private getRunErrors(): RunError[] | undefined {
+    return this.runErrors.length > 0 ? this.runErrors : undefined;
+  }
+
+  /**
+   * Number of planned tests that never reported a final result
    */
-  private getTestId(test: TestCase): string {
-    return `${test.titlePath().join(' > ')}`;
+  private getNotRunCount(): number {
+    return Math.max(0, this.plannedTests - this.totalTests);
+  }
+
+  /**
+   * Upload failures of final attempts (the ones counted in the run summary)
+   */
+  private getFinalUploadFailures(): UploadFailure[] {
+    return this.uploadFailures.filter((failure) => failure.isFinalAttempt);
   }
 
   /**
@@ -588,5 +1207,11 @@ export default class QAStudioReporter implements Reporter {
   }
 }
 
+export { replaySpool } from './spool';
+export { readReport, uploadReport } from './import';
+
 // Export types for users
 export type { QAStudioReporterOptions } from './types';
+export type { ReplaySpoolOptions, ReplaySpoolResult, SpoolManifest } from './spool';
+export type { RunExport, ExportedResult, ExportedAttachment } from './export';
+export type { ImportedReport, ImportedTest, ImportReportResult } from './import';
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { ConcurrencyLimiter } from './limiter';
+
+describe('ConcurrencyLimiter', () => {
+  it('should never run more tasks than the limit at once', async () => {
+    const limiter = new ConcurrencyLimiter(2);
+    let running = 0;
+    let maxRunning = 0;
+
+    const task = async () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      running--;
+    };
+
+    await Promise.all(Array.from({ length: 6 }, () => limiter.run(task)));
+
+    expect(maxRunning).toBe(2);
+    expect(limiter.running).toBe(0);
+    expect(limiter.queued).toBe(0);
+  });
+
+  it('should start queued tasks in order', async () => {
+    const limiter = new ConcurrencyLimiter(1);
+    const order: number[] = [];
+
+    await Promise.all(
+      [1, 2, 3].map((n) =>
+        limiter.run(async () => {
+          order.push(n);
+        })
+      )
+    );
+
+    expect(order).toEqual([1, 2, 3]);
+  });
+
+  it('should release the slot when a task fails', async () => {
+    const limiter = new ConcurrencyLimiter(1);
+
+    await expect(
+      limiter.run(async () => {
+        throw new Error('boom');
+      })
+    ).rejects.toThrow('boom');
+    await expect(limiter.run(async () => 'ok')).resolves.toBe('ok');
+  });
+});
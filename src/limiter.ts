@@ -0,0 +1,58 @@
+/**
+ * Limits how many async tasks run at the same time
+ *
+ * Tasks beyond the limit wait in FIFO order until a running task settles.
+ */
+export class ConcurrencyLimiter {
+  private readonly limit: number;
+  private active = 0;
+  private waiting: Array<() => void> = [];
+
+  constructor(limit: number) {
+    this.limit = Math.max(1, Math.floor(limit));
+  }
+
+  /**
+   * Number of tasks currently running
+   */
+  get running(): number {
+    return this.active;
+  }
+
+  /**
+   * Number of tasks waiting for a free slot
+   */
+  get queued(): number {
+    return this.waiting.length;
+  }
+
+  /**
+   * Run a task as soon as a slot is free
+   */
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  private async acquire(): Promise<void> {
+    if (this.active < this.limit) {
+      this.active++;
+      return;
+    }
+    // The slot is handed over directly by release(), so `active` stays unchanged
+    await new Promise<void>((resolve) => this.waiting.push(resolve));
+  }
+
+  private release(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+}
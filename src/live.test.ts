@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import type { TestCase, TestResult, TestStep } from '@playwright/test/reporter';
+import type { QAStudioAPIClient } from './api-client';
+import { LiveEventStream } from './live';
+import type { SendLiveEventsRequest } from './types';
+
+const test = { id: 't1', title: 'pays with card' } as unknown as TestCase;
+const result = {
+  workerIndex: 2,
+  retry: 0,
+  status: 'passed',
+  startTime: new Date('2025-01-01T00:00:00Z'),
+} as unknown as TestResult;
+const makeStep = (title: string, category = 'test.step') =>
+  ({ title, category, duration: 5, titlePath: () => [title] }) as unknown as TestStep;
+
+const makeStream = (sendLiveEvents = vi.fn(async (_request: SendLiveEventsRequest) => {})) => {
+  const stream = new LiveEventStream({
+    apiClient: { sendLiveEvents } as unknown as QAStudioAPIClient,
+    getTestRunId: async () => 'run-1',
+    heartbeatInterval: 1000,
+    flushInterval: 0,
+  });
+  return { stream, sendLiveEvents };
+};
+
+describe('LiveEventStream', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should send test and step events in order', async () => {
+    const { stream, sendLiveEvents } = makeStream();
+
+    stream.testBegin(test, result);
+    stream.stepBegin(test, result, makeStep('fixture: page', 'fixture'));
+    stream.stepBegin(test, result, makeStep('fill form'));
+    stream.stepEnd(test, result, makeStep('fill form'));
+    stream.testEnd(test, result);
+    await stream.stop();
+
+    const events = sendLiveEvents.mock.calls.flatMap(([request]) => request.events);
+    expect(sendLiveEvents.mock.calls[0][0].testRunId).toBe('run-1');
+    expect(events.map((event) => [event.type, event.seq])).toEqual([
+      ['testBegin', 1],
+      ['stepBegin', 2],
+      ['stepEnd', 3],
+      ['testEnd', 4],
+    ]);
+    expect(events[2]).toMatchObject({
+      playwrightTestId: 't1',
+      workerIndex: 2,
+      step: { title: 'fill form', titlePath: ['fill form'], category: 'test.step', duration: 5 },
+    });
+    expect(events[3].status).toBe('passed');
+  });
+
+  it('should list running tests with their current step in heartbeats', async () => {
+    vi.useFakeTimers();
+    const { stream, sendLiveEvents } = makeStream();
+
+    stream.start();
+    stream.testBegin(test, result);
+    stream.stepBegin(test, result, makeStep('checkout'));
+    vi.advanceTimersByTime(1000);
+    await stream.stop();
+
+    const heartbeat = sendLiveEvents.mock.calls
+      .flatMap(([request]) => request.events)
+      .find((event) => event.type === 'heartbeat');
+    expect(heartbeat?.running).toEqual([
+      expect.objectContaining({
+        playwrightTestId: 't1',
+        workerIndex: 2,
+        startTime: '2025-01-01T00:00:00.000Z',
+        currentStep: 'checkout',
+      }),
+    ]);
+  });
+
+  it('should report a failed batch once without throwing', async () => {
+    const onError = vi.fn();
+    const stream = new LiveEventStream({
+      apiClient: {
+        sendLiveEvents: vi.fn(async () => {
+          throw new Error('offline');
+        }),
+      } as unknown as QAStudioAPIClient,
+      getTestRunId: async () => 'run-1',
+      heartbeatInterval: 0,
+      flushInterval: 0,
+      onError,
+    });
+
+    stream.testBegin(test, result);
+    stream.testEnd(test, result);
+    await stream.stop();
+    await Promise.resolve();
+
+    expect(onError).toHaveBeenCalledTimes(1);
+  });
+
+  it('should drop events when the test run was not created', async () => {
+    const sendLiveEvents = vi.fn();
+    const stream = new LiveEventStream({
+      apiClient: { sendLiveEvents } as unknown as QAStudioAPIClient,
+      getTestRunId: async () => undefined,
+      heartbeatInterval: 0,
+      flushInterval: 0,
+    });
+
+    stream.testBegin(test, result);
+    await stream.stop();
+
+    expect(sendLiveEvents).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,236 @@
+import type { TestCase, TestResult, TestStep } from '@playwright/test/reporter';
+import type { QAStudioAPIClient } from './api-client';
+import { Batcher } from './batcher';
+import type { Redactor } from './redaction';
+import type { LiveEvent, LiveRunningTest } from './types';
+import { mapTestStatus } from './utils';
+
+/**
+ * Configuration for a LiveEventStream
+ */
+export interface LiveEventStreamOptions {
+  apiClient: QAStudioAPIClient;
+  /**
+   * Resolves with the test run ID once the run exists (undefined if creation failed)
+   */
+  getTestRunId: () => Promise<string | undefined>;
+  /**
+   * Interval (ms) between heartbeats
+   */
+  heartbeatInterval: number;
+  /**
+   * Maximum time (ms) an event waits before being sent
+   * @default 1000
+   */
+  flushInterval?: number;
+  /**
+   * Skip fixture steps, like the step list sent with results
+   * @default true
+   */
+  filterFixtureSteps?: boolean;
+  /**
+   * Redacts secrets from events before they are sent
+   */
+  redactor?: Redactor;
+  /**
+   * Called when a batch of events could not be sent
+   */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Streams test progress events to QAStudio.dev while tests execute
+ *
+ * Events are best effort: they are batched, sent in the background, and
+ * failures are reported through `onError` without affecting result uploads.
+ * Heartbeats list the tests in progress with their last activity, so the
+ * server can flag workers that stopped making progress.
+ */
+export class LiveEventStream {
+  private readonly getTestRunId: () => Promise<string | undefined>;
+  private readonly heartbeatInterval: number;
+  private readonly filterFixtureSteps: boolean;
+  private readonly onError?: (error: unknown) => void;
+  private readonly redactor?: Redactor;
+  private readonly batcher: Batcher<LiveEvent, void>;
+  private readonly running = new Map<string, LiveRunningTest & { steps: string[] }>();
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private seq = 0;
+  private lastError: unknown;
+
+  constructor(options: LiveEventStreamOptions) {
+    this.getTestRunId = options.getTestRunId;
+    this.heartbeatInterval = options.heartbeatInterval;
+    this.filterFixtureSteps = options.filterFixtureSteps !== false;
+    this.onError = options.onError;
+    this.redactor = options.redactor;
+    this.batcher = new Batcher<LiveEvent, void>({
+      batchSize: 100,
+      flushInterval: options.flushInterval ?? 1000,
+      handler: async (events) => {
+        const testRunId = await this.getTestRunId();
+        if (testRunId) {
+          await options.apiClient.sendLiveEvents({ testRunId, events });
+        }
+        return events.map(() => undefined);
+      },
+    });
+  }
+
+  /**
+   * Start sending heartbeats
+   */
+  start(): void {
+    if (this.heartbeatTimer || this.heartbeatInterval <= 0) {
+      return;
+    }
+    this.heartbeatTimer = setInterval(() => this.heartbeat(), this.heartbeatInterval);
+    // Don't keep the process alive just for heartbeats
+    this.heartbeatTimer.unref();
+  }
+
+  /**
+   * Record that a test attempt started
+   */
+  testBegin(test: TestCase, result: TestResult): void {
+    const now = new Date().toISOString();
+    this.running.set(this.key(test, result), {
+      playwrightTestId: test.id,
+      title: test.title,
+      workerIndex: result.workerIndex,
+      retry: result.retry,
+      startTime: result.startTime?.toISOString() ?? now,
+      lastActivity: now,
+      steps: [],
+    });
+    this.emit({ type: 'testBegin', ...this.testFields(test, result) });
+  }
+
+  /**
+   * Record that a step started
+   */
+  stepBegin(test: TestCase, result: TestResult, step: TestStep): void {
+    if (this.filterFixtureSteps && step.category === 'fixture') {
+      return;
+    }
+    const running = this.touch(test, result);
+    running?.steps.push(step.title);
+    this.emit({ type: 'stepBegin', ...this.testFields(test, result), step: this.stepFields(step) });
+  }
+
+  /**
+   * Record that a step finished
+   */
+  stepEnd(test: TestCase, result: TestResult, step: TestStep): void {
+    if (this.filterFixtureSteps && step.category === 'fixture') {
+      return;
+    }
+    const running = this.touch(test, result);
+    const index = running?.steps.lastIndexOf(step.title) ?? -1;
+    if (index >= 0) {
+      running!.steps.splice(index, 1);
+    }
+    this.emit({
+      type: 'stepEnd',
+      ...this.testFields(test, result),
+      step: {
+        ...this.stepFields(step),
+        duration: step.duration,
+        error: step.error?.message,
+      },
+    });
+  }
+
+  /**
+   * Record that a test attempt finished
+   */
+  testEnd(test: TestCase, result: TestResult): void {
+    this.running.delete(this.key(test, result));
+    this.emit({
+      type: 'testEnd',
+      ...this.testFields(test, result),
+      status: mapTestStatus(result.status),
+    });
+  }
+
+  /**
+   * Tests currently in progress
+   */
+  getRunningTests(): LiveRunningTest[] {
+    return [...this.running.values()].map(({ steps, ...test }) => ({
+      ...test,
+      currentStep: steps[steps.length - 1],
+    }));
+  }
+
+  /**
+   * Stop heartbeats and send all buffered events
+   */
+  async stop(): Promise<void> {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    await this.batcher.flush();
+  }
+
+  /**
+   * Queue a heartbeat listing the tests in progress
+   */
+  private heartbeat(): void {
+    this.emit({ type: 'heartbeat', running: this.getRunningTests() });
+  }
+
+  /**
+   * Stamp an event and queue it for sending
+   */
+  private emit(event: Omit<LiveEvent, 'seq' | 'timestamp'>): void {
+    const stamped = { ...event, seq: ++this.seq, timestamp: new Date().toISOString() };
+    this.batcher
+      .add(this.redactor ? this.redactor.redactObject(stamped) : stamped)
+      .catch((error: unknown) => {
+        // Every event of a failed batch rejects with the same error; report it once
+        if (error !== this.lastError) {
+          this.lastError = error;
+          this.onError?.(error);
+        }
+      });
+  }
+
+  /**
+   * Update the last activity of a running test
+   */
+  private touch(test: TestCase, result: TestResult) {
+    const running = this.running.get(this.key(test, result));
+    if (running) {
+      running.lastActivity = new Date().toISOString();
+    }
+    return running;
+  }
+
+  /**
+   * Key of a test attempt (the same test can run again as a retry)
+   */
+  private key(test: TestCase, result: TestResult): string {
+    return `${test.id}#${result.retry}`;
+  }
+
+  /**
+   * Fields identifying the test attempt an event belongs to
+   */
+  private testFields(test: TestCase, result: TestResult) {
+    return {
+      playwrightTestId: test.id,
+      title: test.title,
+      workerIndex: result.workerIndex,
+      retry: result.retry,
+    };
+  }
+
+  /**
+   * Fields describing a step
+   */
+  private stepFields(step: TestStep) {
+    return { title: step.title, titlePath: step.titlePath(), category: step.category };
+  }
+}
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { RunExport } from './export';
+import {
+  guessContentType,
+  isRunStatus,
+  mergeRunExports,
+  readRunExport,
+  worstRunStatus,
+} from './pipeline';
+
+const makeExport = (
+  createdAt: string,
+  status: RunExport['status'],
+  summary: Partial<RunExport['summary']>,
+  extra: Partial<RunExport> = {}
+): RunExport => ({
+  version: 1,
+  createdAt,
+  testRunId: 'run-1',
+  testRun: { projectId: 'project-1', name: 'Nightly' },
+  status,
+  summary: {
+    total: 0,
+    passed: 0,
+    failed: 0,
+    skipped: 0,
+    flaky: 0,
+    interrupted: 0,
+    duration: 0,
+    ...summary,
+  },
+  results: [],
+  ...extra,
+});
+
+describe('mergeRunExports', () => {
+  it('should add up the jobs of a run', () => {
+    const completion = mergeRunExports([
+      makeExport('2025-01-01T00:10:00.000Z', 'passed', {
+        total: 3,
+        passed: 3,
+        flaky: 1,
+        duration: 60_000,
+        planned: 3,
+      }),
+      makeExport(
+        '2025-01-01T00:12:00.000Z',
+        'failed',
+        { total: 2, passed: 1, failed: 1, duration: 90_000 },
+        { errors: [{ message: 'Error: worker crashed' }] }
+      ),
+    ]);
+
+    expect(completion).toEqual({
+      status: 'failed',
+      summary: {
+        total: 5,
+        passed: 4,
+        failed: 1,
+        skipped: 0,
+        flaky: 1,
+        interrupted: 0,
+        planned: 3,
+        // From the first job's start (00:09:00) to the last job's end (00:12:00)
+        duration: 180_000,
+      },
+      errors: [{ message: 'Error: worker crashed' }],
+    });
+  });
+
+  it('should complete an empty run as passed', () => {
+    expect(mergeRunExports([])).toMatchObject({
+      status: 'passed',
+      summary: { total: 0, duration: 0 },
+    });
+  });
+});
+
+describe('worstRunStatus', () => {
+  it('should rank unfinished runs below failed ones', () => {
+    expect(worstRunStatus(['passed', 'failed'])).toBe('failed');
+    expect(worstRunStatus(['failed', 'interrupted', 'passed'])).toBe('interrupted');
+    expect(worstRunStatus([])).toBe('passed');
+  });
+});
+
+describe('isRunStatus', () => {
+  it('should accept run statuses only', () => {
+    expect(isRunStatus('timedout')).toBe(true);
+    expect(isRunStatus('completed')).toBe(false);
+  });
+});
+
+describe('readRunExport', () => {
+  it('should reject files that are not run exports', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'qastudio-pipeline-'));
+    const file = path.join(dir, 'results.json');
+    fs.writeFileSync(file, JSON.stringify({ suites: [] }));
+
+    expect(() => readRunExport(file)).toThrow("is not a run export written by the reporter's");
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+});
+
+describe('guessContentType', () => {
+  it('should guess from the extension', () => {
+    expect(guessContentType('shots/Home.PNG')).toBe('image/png');
+    expect(guessContentType('trace.zip')).toBe('application/zip');
+    expect(guessContentType('dump.bin')).toBe('application/octet-stream');
+  });
+});
@@ -0,0 +1,112 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { RunExport } from './export';
+import type { CompleteTestRunRequest, RunError, RunStatus } from './types';
+
+/**
+ * Run statuses from best to worst; a run made of several jobs gets the worst one
+ */
+const RUN_STATUS_ORDER: RunStatus[] = ['passed', 'failed', 'timedout', 'interrupted', 'aborted'];
+
+/**
+ * Content types of common attachment files, by extension
+ */
+const CONTENT_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.webm': 'video/webm',
+  '.mp4': 'video/mp4',
+  '.zip': 'application/zip',
+  '.json': 'application/json',
+  '.html': 'text/html',
+  '.xml': 'application/xml',
+  '.txt': 'text/plain',
+  '.log': 'text/plain',
+};
+
+/**
+ * Status, summary and errors used to complete a run
+ */
+export type RunCompletion = Required<Pick<CompleteTestRunRequest, 'status' | 'summary'>> & {
+  errors: RunError[];
+};
+
+/**
+ * Read a run export written by the reporter's `outputFile` option
+ */
+export function readRunExport(file: string): RunExport {
+  const runExport = JSON.parse(fs.readFileSync(file, 'utf-8')) as RunExport;
+  if (runExport.version !== 1 || !runExport.summary) {
+    throw new Error(`${file} is not a run export written by the reporter's outputFile option`);
+  }
+  return runExport;
+}
+
+/**
+ * Combine the exports of the jobs that reported to one test run
+ *
+ * Totals are added up, the run gets the worst status of its jobs, and the
+ * duration spans from the start of the first job to the end of the last.
+ */
+export function mergeRunExports(exports: RunExport[]): RunCompletion {
+  const summary: CompleteTestRunRequest['summary'] = {
+    total: 0,
+    passed: 0,
+    failed: 0,
+    skipped: 0,
+    flaky: 0,
+    interrupted: 0,
+    duration: 0,
+  };
+  let start = Infinity;
+  let end = -Infinity;
+
+  for (const { summary: job, createdAt } of exports) {
+    for (const key of ['total', 'passed', 'failed', 'skipped', 'flaky', 'interrupted'] as const) {
+      summary[key] += job[key];
+    }
+    for (const key of ['planned', 'notRun'] as const) {
+      if (job[key] !== undefined) {
+        summary[key] = (summary[key] ?? 0) + job[key];
+      }
+    }
+    const finished = Date.parse(createdAt);
+    start = Math.min(start, finished - job.duration);
+    end = Math.max(end, finished);
+  }
+  summary.duration = exports.length > 0 ? end - start : 0;
+
+  return {
+    status: worstRunStatus(exports.map((runExport) => runExport.status)),
+    summary,
+    errors: exports.flatMap((runExport) => runExport.errors ?? []),
+  };
+}
+
+/**
+ * Worst of several run statuses, 'passed' when there are none
+ */
+export function worstRunStatus(statuses: RunStatus[]): RunStatus {
+  return statuses.reduce<RunStatus>(
+    (worst, status) =>
+      RUN_STATUS_ORDER.indexOf(status) > RUN_STATUS_ORDER.indexOf(worst) ? status : worst,
+    'passed'
+  );
+}
+
+/**
+ * Whether a value is a run status
+ */
+export function isRunStatus(value: string): value is RunStatus {
+  return (RUN_STATUS_ORDER as string[]).includes(value);
+}
+
+/**
+ * Guess the content type of an attachment file from its extension
+ */
+export function guessContentType(file: string): string {
+  return CONTENT_TYPES[path.extname(file).toLowerCase()] ?? 'application/octet-stream';
+}
@@ -0,0 +1,165 @@
+import * as http from 'http';
+import * as https from 'https';
+import * as tls from 'tls';
+import type { Duplex } from 'stream';
+
+/**
+ * Determine the proxy to use for requests to a target URL
+ *
+ * An explicit `proxy` option wins; `false` disables proxying. Otherwise the
+ * HTTPS_PROXY / HTTP_PROXY environment variables (or their lowercase forms) are
+ * used, unless the target host matches NO_PROXY.
+ */
+export function resolveProxyUrl(
+  targetUrl: string,
+  proxy: string | false | undefined,
+  env: NodeJS.ProcessEnv = process.env
+): URL | undefined {
+  if (proxy === false) {
+    return undefined;
+  }
+
+  const target = new URL(targetUrl);
+  let proxyUrl = proxy;
+
+  if (!proxyUrl) {
+    const noProxy = env.NO_PROXY ?? env.no_proxy;
+    if (noProxy && shouldBypassProxy(target, noProxy)) {
+      return undefined;
+    }
+
+    proxyUrl =
+      target.protocol === 'https:'
+        ? (env.HTTPS_PROXY ?? env.https_proxy ?? env.HTTP_PROXY ?? env.http_proxy)
+        : (env.HTTP_PROXY ?? env.http_proxy);
+  }
+
+  if (!proxyUrl) {
+    return undefined;
+  }
+
+  try {
+    // Proxy URLs are often given without a scheme (e.g. "proxy.corp:3128")
+    return new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(proxyUrl) ? proxyUrl : `http://${proxyUrl}`);
+  } catch {
+    throw new Error(`Invalid proxy URL: "${proxyUrl}"`);
+  }
+}
+
+/**
+ * Check whether a target URL matches a NO_PROXY list
+ *
+ * Entries are comma or space separated host names, optionally with a port.
+ * `example.com`, `.example.com` and `*.example.com` all match example.com and
+ * its subdomains; `*` disables proxying entirely.
+ */
+export function shouldBypassProxy(target: URL, noProxy: string): boolean {
+  const hostname = target.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  const port = target.port || (target.protocol === 'https:' ? '443' : '80');
+
+  return noProxy
+    .split(/[\s,]+/)
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean)
+    .some((entry) => {
+      if (entry === '*') {
+        return true;
+      }
+
+      const [, entryHost, entryPort] = entry.match(/^(.*?)(?::(\d+))?$/) ?? [];
+      if (entryPort && entryPort !== port) {
+        return false;
+      }
+
+      const suffix = entryHost.replace(/^\*?\./, '');
+      return hostname === suffix || hostname.endsWith(`.${suffix}`);
+    });
+}
+
+/**
+ * Build the Proxy-Authorization header for credentials embedded in a proxy URL
+ */
+export function getProxyAuthorization(proxyUrl: URL): string | undefined {
+  if (!proxyUrl.username) {
+    return undefined;
+  }
+  const credentials = `${decodeURIComponent(proxyUrl.username)}:${decodeURIComponent(proxyUrl.password)}`;
+  return `Basic ${Buffer.from(credentials).toString('base64')}`;
+}
+
+/**
+ * Callback of `Agent#createConnection`, which gets no stream when connecting fails
+ *
+ * Node's typings always pass a stream; taking the callback's type from a method
+ * keeps it assignable from theirs.
+ */
+type ConnectCallback = {
+  callback(err: Error | null, stream?: Duplex): void;
+}['callback'];
+
+/**
+ * HTTPS agent that tunnels connections through an HTTP(S) proxy using CONNECT
+ *
+ * TLS options given to the agent (CA bundle, client certificate) apply to the
+ * connection with the target server, end to end through the tunnel.
+ */
+export class HttpsProxyAgent extends https.Agent {
+  private readonly proxyUrl: URL;
+
+  constructor(proxyUrl: URL, options: https.AgentOptions) {
+    super(options);
+    this.proxyUrl = proxyUrl;
+  }
+
+  createConnection(
+    options: https.RequestOptions,
+    callback?: (err: Error | null, stream: Duplex) => void
+  ): Duplex | null | undefined {
+    const done: ConnectCallback | undefined = callback;
+    const host = options.hostname ?? options.host ?? 'localhost';
+    const port = options.port ?? 443;
+    const authority = `${host}:${port}`;
+    const proxyAuthorization = getProxyAuthorization(this.proxyUrl);
+    const proxyModule = this.proxyUrl.protocol === 'https:' ? https : http;
+
+    const connectRequest = proxyModule.request({
+      host: this.proxyUrl.hostname,
+      port: this.proxyUrl.port || (this.proxyUrl.protocol === 'https:' ? 443 : 80),
+      method: 'CONNECT',
+      path: authority,
+      headers: {
+        Host: authority,
+        ...(proxyAuthorization ? { 'Proxy-Authorization': proxyAuthorization } : {}),
+      },
+      timeout: options.timeout,
+    });
+
+    const fail = (error: Error) => {
+      connectRequest.destroy();
+      done?.(error);
+    };
+
+    connectRequest.once('connect', (res, socket) => {
+      // Proxies answer an established tunnel with any 2xx status
+      const statusCode = res.statusCode ?? 0;
+      if (statusCode < 200 || statusCode >= 300) {
+        socket.destroy();
+        fail(new Error(`Proxy CONNECT to ${authority} failed with status ${res.statusCode}`));
+        return;
+      }
+
+      const tlsSocket = tls.connect({
+        ...(options as tls.ConnectionOptions),
+        socket,
+        servername: options.servername ?? host,
+      });
+      done?.(null, tlsSocket);
+    });
+    connectRequest.once('timeout', () => fail(new Error('Proxy CONNECT timed out')));
+    connectRequest.once('error', fail);
+    connectRequest.end();
+
+    // The socket is handed over asynchronously through the callback
+    return undefined;
+  }
+}
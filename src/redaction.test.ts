@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { REDACTION_MASK, Redactor, getRedactionRules } from './redaction';
+
+const baseOptions = {
+  apiUrl: 'https://qastudio.dev/api',
+  apiKey: 'qas_live_abcdef',
+  projectId: 'project',
+};
+
+describe('getRedactionRules', () => {
+  it('should include the API key, configured values and selected env vars', () => {
+    const rules = getRedactionRules(
+      {
+        ...baseOptions,
+        redactValues: ['hunter22', 'abc'],
+        redactEnvVars: ['DB_PASSWORD', '*_TOKEN', 'MISSING'],
+      },
+      { DB_PASSWORD: 'pg-secret', GITHUB_TOKEN: 'ghp_123456', HOME: '/home/ci' }
+    );
+
+    expect(rules.values).toEqual(['qas_live_abcdef', 'ghp_123456', 'pg-secret', 'hunter22']);
+  });
+
+  it('should compile string patterns as global regular expressions', () => {
+    const rules = getRedactionRules({ ...baseOptions, redactPatterns: ['Bearer \\S+', /pw=\w+/i] });
+
+    expect(rules.patterns.map((pattern) => pattern.flags)).toEqual(['g', 'gi']);
+  });
+});
+
+describe('Redactor', () => {
+  const redactor = () =>
+    new Redactor(
+      getRedactionRules({
+        ...baseOptions,
+        redactValues: ['password123'],
+        redactPatterns: [/Bearer \S+/],
+      })
+    );
+
+  it('should redact values and patterns and count each redaction', () => {
+    const instance = redactor();
+
+    expect(instance.redact('fill "password123" with Bearer eyJhbGci and password123')).toBe(
+      `fill "${REDACTION_MASK}" with ${REDACTION_MASK} and ${REDACTION_MASK}`
+    );
+    expect(instance.count).toBe(3);
+  });
+
+  it('should redact nested string fields and keep identifiers and timestamps', () => {
+    const instance = redactor();
+    const result = {
+      title: 'logs in',
+      status: 'failed' as const,
+      startTime: '2025-01-01T00:00:00.000Z',
+      playwrightTestId: 'password123',
+      error: 'expected password123',
+      duration: 12,
+      steps: [
+        {
+          title: 'fill "password123"',
+          category: 'pw:api',
+          steps: [{ title: 'Authorization: Bearer abc.def', category: 'pw:api' }],
+        },
+      ],
+      metadata: { token: 'password123' },
+    };
+
+    const redacted = instance.redactObject(result);
+
+    expect(redacted).toEqual({
+      ...result,
+      error: `expected ${REDACTION_MASK}`,
+      steps: [
+        {
+          title: `fill "${REDACTION_MASK}"`,
+          category: 'pw:api',
+          steps: [{ title: `Authorization: ${REDACTION_MASK}`, category: 'pw:api' }],
+        },
+      ],
+      metadata: { token: REDACTION_MASK },
+    });
+    expect(result.error).toBe('expected password123');
+    expect(instance.count).toBe(4);
+  });
+
+  it('should return the value untouched when there is nothing to redact', () => {
+    const instance = new Redactor({ values: [], patterns: [] });
+    const value = { title: 'anything' };
+
+    expect(instance.redactObject(value)).toBe(value);
+  });
+});
@@ -0,0 +1,164 @@
+import type { QAStudioReporterOptions } from './types';
+
+/**
+ * Text that replaces redacted values
+ */
+export const REDACTION_MASK = '[REDACTED]';
+
+/**
+ * Literal values shorter than this are not redacted, as masking them would
+ * mangle unrelated text
+ */
+const MIN_VALUE_LENGTH = 4;
+
+/**
+ * Fields holding identifiers, timestamps and enums rather than free text
+ */
+const UNREDACTED_FIELDS = new Set([
+  'status',
+  'type',
+  'category',
+  'startTime',
+  'endTime',
+  'timestamp',
+  'lastActivity',
+  'playwrightTestId',
+  'identity',
+  'testCaseId',
+  'testCaseIds',
+]);
+
+/**
+ * Values and patterns to redact
+ */
+export interface RedactionRules {
+  values: string[];
+  patterns: RegExp[];
+}
+
+/**
+ * Build the redaction rules from reporter options
+ *
+ * The API key is always redacted, along with the values of the environment
+ * variables named in `redactEnvVars` (`*` matches any characters, e.g. `*_TOKEN`).
+ */
+export function getRedactionRules(
+  options?: Partial<QAStudioReporterOptions>,
+  env: NodeJS.ProcessEnv = process.env
+): RedactionRules {
+  const values = new Set<string>();
+  const add = (value: string | undefined) => {
+    if (value && value.length >= MIN_VALUE_LENGTH) {
+      values.add(value);
+    }
+  };
+
+  add(options?.apiKey);
+  options?.redactValues?.forEach(add);
+
+  for (const name of options?.redactEnvVars ?? []) {
+    if (name.includes('*')) {
+      const matcher = new RegExp(
+        `^${name
+          .split('*')
+          .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+          .join('.*')}$`
+      );
+      Object.keys(env)
+        .filter((key) => matcher.test(key))
+        .forEach((key) => add(env[key]));
+    } else {
+      add(env[name]);
+    }
+  }
+
+  return {
+    // Longest first, so a value containing another one is masked as a whole
+    values: [...values].sort((a, b) => b.length - a.length),
+    patterns: (options?.redactPatterns ?? []).map((pattern) => {
+      const regex = typeof pattern === 'string' ? new RegExp(pattern) : pattern;
+      return regex.flags.includes('g') ? regex : new RegExp(regex.source, `${regex.flags}g`);
+    }),
+  };
+}
+
+/**
+ * Replaces secrets in data before it is uploaded and counts the replacements
+ */
+export class Redactor {
+  private redactions = 0;
+
+  constructor(private readonly rules: RedactionRules) {}
+
+  /**
+   * Number of values redacted so far
+   */
+  get count(): number {
+    return this.redactions;
+  }
+
+  /**
+   * Whether there is anything to redact
+   */
+  get enabled(): boolean {
+    return this.rules.values.length > 0 || this.rules.patterns.length > 0;
+  }
+
+  /**
+   * Redact a string
+   */
+  redact(text: string): string {
+    let redacted = text;
+
+    for (const value of this.rules.values) {
+      const parts = redacted.split(value);
+      if (parts.length > 1) {
+        this.redactions += parts.length - 1;
+        redacted = parts.join(REDACTION_MASK);
+      }
+    }
+
+    for (const pattern of this.rules.patterns) {
+      redacted = redacted.replace(pattern, () => {
+        this.redactions++;
+        return REDACTION_MASK;
+      });
+    }
+
+    return redacted;
+  }
+
+  /**
+   * Redact every string field of a value, recursing into objects and arrays
+   *
+   * Returns a copy; identifier, timestamp and enum fields (e.g. `status`,
+   * `startTime`) are left as they are.
+   */
+  redactObject<T>(value: T): T {
+    if (!this.enabled) {
+      return value;
+    }
+    return this.redactValue(value) as T;
+  }
+
+  /**
+   * Redact one value of a field that may be redacted
+   */
+  private redactValue(value: unknown): unknown {
+    if (typeof value === 'string') {
+      return this.redact(value);
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.redactValue(item));
+    }
+    if (value && Object.getPrototypeOf(value) === Object.prototype) {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, field]) => [
+          key,
+          UNREDACTED_FIELDS.has(key) ? field : this.redactValue(field),
+        ])
+      );
+    }
+    return value;
+  }
+}
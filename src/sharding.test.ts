@@ -0,0 +1,110 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { QAStudioAPIClient } from './api-client';
+import { completeShard, getCIBuildKey, resolveShard } from './sharding';
+
+describe('getCIBuildKey', () => {
+  it('should include the attempt for GitHub Actions', () => {
+    expect(
+      getCIBuildKey({ GITHUB_ACTIONS: 'true', GITHUB_RUN_ID: '123', GITHUB_RUN_ATTEMPT: '2' })
+    ).toBe('github-123-2');
+  });
+
+  it('should recognize other CI providers', () => {
+    expect(getCIBuildKey({ GITLAB_CI: 'true', CI_PIPELINE_ID: '9' })).toBe('gitlab-9');
+    expect(getCIBuildKey({ BUILDKITE: 'true', BUILDKITE_BUILD_ID: 'abc' })).toBe('buildkite-abc');
+    expect(getCIBuildKey({ CIRCLECI: 'true', CIRCLE_WORKFLOW_ID: 'wf' })).toBe('circleci-wf');
+    expect(getCIBuildKey({ TF_BUILD: 'True', BUILD_BUILDID: '42' })).toBe('azure-42');
+    expect(getCIBuildKey({ JENKINS_URL: 'https://ci', BUILD_TAG: 'jenkins-job-7' })).toBe(
+      'jenkins-jenkins-job-7'
+    );
+  });
+
+  it('should return undefined outside CI', () => {
+    expect(getCIBuildKey({})).toBeUndefined();
+    expect(getCIBuildKey({ GITHUB_RUN_ID: '123' })).toBeUndefined();
+  });
+});
+
+describe('resolveShard', () => {
+  it('should return undefined when the run is not sharded', () => {
+    expect(resolveShard(null, 'key', {})).toBeUndefined();
+    expect(resolveShard({ current: 1, total: 1 }, 'key', {})).toBeUndefined();
+  });
+
+  it('should prefer the configured shard run key', () => {
+    expect(resolveShard({ current: 2, total: 4 }, 'nightly-7', { GITHUB_RUN_ID: '1' })).toEqual({
+      key: 'nightly-7',
+      current: 2,
+      total: 4,
+    });
+  });
+
+  it('should derive the key from the CI environment', () => {
+    expect(
+      resolveShard({ current: 1, total: 2 }, undefined, { GITLAB_CI: 'true', CI_PIPELINE_ID: '5' })
+    ).toEqual({
+      key: 'gitlab-5',
+      current: 1,
+      total: 2,
+    });
+  });
+
+  it('should throw when no key can be determined', () => {
+    expect(() => resolveShard({ current: 1, total: 2 }, undefined, {})).toThrow(/shardRunKey/);
+  });
+});
+
+describe('completeShard', () => {
+  const summary = {
+    total: 2,
+    passed: 1,
+    failed: 0,
+    skipped: 0,
+    flaky: 0,
+    interrupted: 1,
+    duration: 10,
+  };
+  const shard = { key: 'k', current: 2, total: 2 };
+
+  it('should complete the run with the aggregated status after the last shard', async () => {
+    const apiClient = {
+      completeShard: vi.fn(async () => ({
+        success: true,
+        testRunId: 'run-1',
+        completedShards: 2,
+        totalShards: 2,
+        summary,
+        status: 'interrupted',
+      })),
+      completeTestRun: vi.fn(async () => ({})),
+    } as unknown as QAStudioAPIClient;
+
+    expect(
+      await completeShard(apiClient, 'run-1', shard, summary, {
+        status: 'passed',
+        errors: [{ message: 'Worker crashed' }],
+      })
+    ).toBe(true);
+    expect(apiClient.completeShard).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 'passed', errors: [{ message: 'Worker crashed' }] })
+    );
+    expect(apiClient.completeTestRun).toHaveBeenCalledWith({
+      testRunId: 'run-1',
+      status: 'interrupted',
+      errored: true,
+      summary,
+    });
+  });
+
+  it('should not complete the run while shards are outstanding', async () => {
+    const apiClient = {
+      completeShard: vi.fn(async () => ({ completedShards: 1, totalShards: 2, summary })),
+      completeTestRun: vi.fn(),
+    } as unknown as QAStudioAPIClient;
+
+    expect(await completeShard(apiClient, 'run-1', shard, summary, { status: 'failed' })).toBe(
+      false
+    );
+    expect(apiClient.completeTestRun).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,80 @@
+import type { FullConfig } from '@playwright/test/reporter';
+import type { QAStudioAPIClient } from './api-client';
+import { detectCI } from './ci';
+import type { CompleteTestRunRequest, ShardInfo } from './types';
+
+/**
+ * Build a run key shared by every shard of the same CI pipeline run
+ *
+ * Returns undefined when not running on a recognized CI provider.
+ */
+export function getCIBuildKey(env: NodeJS.ProcessEnv = process.env): string | undefined {
+  const { provider, buildId } = detectCI(env);
+  if (!provider || !buildId) {
+    return undefined;
+  }
+  // Re-running a workflow keeps the run ID, so include the attempt to start a fresh run
+  return provider === 'github'
+    ? `github-${buildId}-${env.GITHUB_RUN_ATTEMPT ?? '1'}`
+    : `${provider}-${buildId}`;
+}
+
+/**
+ * Determine shard information for the current Playwright invocation
+ *
+ * Returns undefined when the run is not sharded. Throws if it is sharded but no
+ * run key was configured and none could be derived from the CI environment.
+ */
+export function resolveShard(
+  shard: FullConfig['shard'],
+  shardRunKey: string | undefined,
+  env: NodeJS.ProcessEnv = process.env
+): ShardInfo | undefined {
+  if (!shard || shard.total <= 1) {
+    return undefined;
+  }
+
+  const key = shardRunKey ?? getCIBuildKey(env);
+  if (!key) {
+    throw new Error(
+      'Could not derive a shard run key from the CI environment. Set the shardRunKey option to a value shared by all shards.'
+    );
+  }
+
+  return { key, current: shard.current, total: shard.total };
+}
+
+/**
+ * Report a finished shard and complete the test run if it was the last shard
+ *
+ * @param outcome - How this shard ended and the run-level errors it saw
+ * @returns Whether this call completed the whole test run
+ */
+export async function completeShard(
+  apiClient: QAStudioAPIClient,
+  testRunId: string,
+  shard: ShardInfo,
+  summary: CompleteTestRunRequest['summary'],
+  outcome: Pick<CompleteTestRunRequest, 'status' | 'errors'> = {}
+): Promise<boolean> {
+  const response = await apiClient.completeShard({
+    testRunId,
+    status: outcome.status,
+    errors: outcome.errors,
+    shard: { current: shard.current, total: shard.total },
+    summary,
+  });
+
+  if (response.completedShards < response.totalShards) {
+    return false;
+  }
+
+  // Last shard to finish: complete the run with totals aggregated across all shards
+  await apiClient.completeTestRun({
+    testRunId,
+    status: response.status ?? outcome.status,
+    errored: response.errored ?? (outcome.errors?.length ?? 0) > 0,
+    summary: response.summary,
+  });
+  return true;
+}
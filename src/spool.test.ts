@@ -0,0 +1,204 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import type { AddressInfo } from 'net';
+import { listSpoolEntries, readManifest, replaySpool, writeSpool } from './spool';
+import type { PendingResult } from './types';
+
+const makePending = (title: string): PendingResult => ({
+  result: {
+    title,
+    fullTitle: `Suite > ${title}`,
+    status: 'failed',
+    duration: 10,
+    startTime: '2025-01-01T00:00:00.000Z',
+    endTime: '2025-01-01T00:00:00.010Z',
+    retry: 0,
+  },
+  attachments: [
+    {
+      name: 'screenshot 1.png',
+      contentType: 'image/png',
+      data: Buffer.from('png-data'),
+      size: 8,
+      type: 'screenshot',
+    },
+  ],
+});
+
+const baseManifest = {
+  projectId: 'project-1',
+  testRun: { projectId: 'project-1', name: 'Nightly' },
+  summary: { total: 2, passed: 0, failed: 2, skipped: 0, flaky: 0, interrupted: 0, duration: 20 },
+  completed: false,
+};
+
+describe('spool', () => {
+  let spoolDir: string;
+
+  beforeEach(() => {
+    spoolDir = fs.mkdtempSync(path.join(os.tmpdir(), 'qastudio-spool-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(spoolDir, { recursive: true, force: true });
+  });
+
+  it('should write results and attachment files that can be read back', () => {
+    const entryDir = writeSpool(spoolDir, baseManifest, [makePending('a'), makePending('b')]);
+
+    expect(listSpoolEntries(spoolDir)).toEqual([entryDir]);
+
+    const manifest = readManifest(entryDir);
+    expect(manifest.projectId).toBe('project-1');
+    expect(manifest.summary.total).toBe(2);
+    expect(manifest.results.map((r) => r.result.title)).toEqual(['a', 'b']);
+
+    const attachment = manifest.results[0].attachments[0];
+    expect(attachment.name).toBe('screenshot 1.png');
+    expect(fs.readFileSync(path.join(entryDir, attachment.file), 'utf-8')).toBe('png-data');
+  });
+
+  it('should copy attachments that are stored on disk', () => {
+    const source = path.join(spoolDir, 'video.webm');
+    fs.writeFileSync(source, 'video-data');
+    const pending = makePending('a');
+    pending.attachments = [
+      { name: 'video', contentType: 'video/webm', path: source, size: 10, type: 'video' },
+    ];
+
+    const entryDir = writeSpool(spoolDir, baseManifest, [pending]);
+
+    const attachment = readManifest(entryDir).results[0].attachments[0];
+    expect(fs.readFileSync(path.join(entryDir, attachment.file), 'utf-8')).toBe('video-data');
+  });
+
+  it('should skip attachment files that cannot be copied and keep the results', () => {
+    const pending = makePending('a');
+    pending.attachments.push({
+      name: 'trace',
+      contentType: 'application/zip',
+      path: path.join(spoolDir, 'missing.zip'),
+      size: 10,
+      type: 'trace',
+    });
+
+    const entryDir = writeSpool(spoolDir, baseManifest, [pending, makePending('b')]);
+
+    const { results } = readManifest(entryDir);
+    expect(results.map((r) => r.result.title)).toEqual(['a', 'b']);
+    expect(results[0].attachments.map((a) => a.name)).toEqual(['screenshot 1.png']);
+  });
+
+  it('should return no entries for a missing spool directory', () => {
+    expect(listSpoolEntries(path.join(spoolDir, 'missing'))).toEqual([]);
+  });
+
+  describe('replaySpool', () => {
+    let server: http.Server;
+    let apiUrl: string;
+    let requests: Array<{ url: string; body: string }>;
+    let failAttachments: boolean;
+
+    beforeEach(async () => {
+      requests = [];
+      failAttachments = false;
+      server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', (chunk) => (body += chunk));
+        req.on('end', () => {
+          requests.push({ url: req.url ?? '', body });
+          res.setHeader('Content-Type', 'application/json');
+          if (req.url === '/api/attachments' && failAttachments) {
+            res.statusCode = 400;
+            res.end(JSON.stringify({ error: 'Upload rejected' }));
+          } else if (req.url === '/api/runs') {
+            res.end(JSON.stringify({ id: 'run-1' }));
+          } else if (req.url === '/api/results') {
+            const { results } = JSON.parse(body) as { results: Array<{ title: string }> };
+            res.end(
+              JSON.stringify({
+                success: true,
+                processedCount: results.length,
+                results: results.map((r, i) => ({ testResultId: `result-${i}`, title: r.title })),
+              })
+            );
+          } else {
+            res.end('{}');
+          }
+        });
+      });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      apiUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+    });
+
+    afterEach(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('should create the run, upload everything and remove the entry', async () => {
+      writeSpool(spoolDir, baseManifest, [makePending('a'), makePending('b')]);
+
+      const outcomes = await replaySpool({ apiUrl, apiKey: 'key', spoolDir });
+
+      expect(outcomes).toHaveLength(1);
+      expect(outcomes[0]).toMatchObject({ testRunId: 'run-1', uploaded: 2, failed: 0 });
+      expect(requests.map((r) => r.url)).toEqual([
+        '/api/runs',
+        '/api/results',
+        '/api/attachments',
+        '/api/attachments',
+        '/api/runs/run-1/complete',
+      ]);
+      expect(requests[2].body).toContain('filename="screenshot 1.png"');
+      expect(requests[2].body).toContain('png-data');
+      expect(JSON.parse(requests[4].body).summary.total).toBe(2);
+      expect(listSpoolEntries(spoolDir)).toEqual([]);
+    });
+
+    it('should only upload the attachments of results that were already submitted', async () => {
+      writeSpool(spoolDir, { ...baseManifest, testRunId: 'existing' }, [
+        { ...makePending('a'), testResultId: 'result-7' },
+      ]);
+
+      const outcomes = await replaySpool({ apiUrl, apiKey: 'key', spoolDir });
+
+      expect(outcomes[0]).toMatchObject({ uploaded: 0, failed: 0 });
+      expect(requests.map((r) => r.url)).toEqual([
+        '/api/attachments',
+        '/api/runs/existing/complete',
+      ]);
+      expect(requests[0].body).toContain('result-7');
+      expect(listSpoolEntries(spoolDir)).toEqual([]);
+    });
+
+    it('should keep attachments that fail to upload for the next replay', async () => {
+      failAttachments = true;
+      writeSpool(spoolDir, baseManifest, [makePending('a')]);
+
+      const outcomes = await replaySpool({ apiUrl, apiKey: 'key', spoolDir, maxRetries: 1 });
+
+      expect(outcomes[0]).toMatchObject({ uploaded: 1, failed: 0 });
+      expect(requests.map((r) => r.url)).toContain('/api/runs/run-1/complete');
+      const [entryDir] = listSpoolEntries(spoolDir);
+      const manifest = readManifest(entryDir);
+      expect(manifest.completed).toBe(true);
+      expect(manifest.results).toHaveLength(1);
+      expect(manifest.results[0].testResultId).toBe('result-0');
+      expect(manifest.results[0].attachments.map((a) => a.name)).toEqual(['screenshot 1.png']);
+    });
+
+    it('should reuse an existing test run and skip completion if already completed', async () => {
+      writeSpool(spoolDir, { ...baseManifest, testRunId: 'existing', completed: true }, [
+        makePending('a'),
+      ]);
+
+      await replaySpool({ apiUrl, apiKey: 'key', spoolDir });
+
+      expect(requests.map((r) => r.url)).toEqual(['/api/results', '/api/attachments']);
+      expect(JSON.parse(requests[0].body).testRunId).toBe('existing');
+    });
+  });
+});
@@ -0,0 +1,395 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { QAStudioAPIClient } from './api-client';
+import type {
+  AttachmentUpload,
+  CompleteTestRunRequest,
+  CreateTestRunRequest,
+  PendingResult,
+  QAStudioReporterOptions,
+  QAStudioTestResult,
+  RunError,
+  RunStatus,
+} from './types';
+import { completeShard } from './sharding';
+import { batchArray, mapBatchResponse } from './utils';
+
+const MANIFEST_FILE = 'manifest.json';
+const ATTACHMENTS_DIR = 'attachments';
+
+/**
+ * Attachment stored on disk next to a spool manifest
+ */
+export interface SpooledAttachment {
+  name: string;
+  contentType: string;
+  type: AttachmentUpload['type'];
+  metadata?: AttachmentUpload['metadata'];
+  /**
+   * File path relative to the spool entry directory
+   */
+  file: string;
+}
+
+/**
+ * Test result stored in a spool manifest
+ */
+export interface SpooledResult {
+  result: QAStudioTestResult;
+  attachments: SpooledAttachment[];
+
+  /**
+   * Set when the result was already submitted and only its attachments are left to upload
+   */
+  testResultId?: string;
+}
+
+/**
+ * Everything needed to replay an unsent run against the API later
+ */
+export interface SpoolManifest {
+  version: 1;
+  createdAt: string;
+  projectId: string;
+
+  /**
+   * Existing test run to upload into. When absent, a run is created from `testRun`.
+   */
+  testRunId?: string;
+
+  /**
+   * Run metadata used to create the test run on replay
+   */
+  testRun: CreateTestRunRequest;
+
+  /**
+   * Summary of the whole local run, sent when completing the test run
+   */
+  summary: CompleteTestRunRequest['summary'];
+
+  /**
+   * How the local run ended, sent when completing the test run
+   */
+  status?: RunStatus;
+
+  /**
+   * Run-level errors reported by Playwright, sent when completing the test run
+   */
+  errors?: RunError[];
+
+  /**
+   * Whether the test run was already completed before spooling
+   */
+  completed: boolean;
+
+  results: SpooledResult[];
+}
+
+/**
+ * Options for replaying spooled runs
+ */
+export interface ReplaySpoolOptions
+  extends Pick<
+    QAStudioReporterOptions,
+    'proxy' | 'caFile' | 'clientCertFile' | 'clientKeyFile' | 'clientKeyPassphrase'
+  > {
+  apiUrl: string;
+  apiKey: string;
+
+  /**
+   * Spool directory the reporter wrote to (its `spoolDir` option)
+   */
+  spoolDir: string;
+
+  /**
+   * @default 50
+   */
+  batchSize?: number;
+  maxRetries?: number;
+  timeout?: number;
+  verbose?: boolean;
+}
+
+/**
+ * Outcome of replaying a single spool entry
+ */
+export interface ReplaySpoolResult {
+  entry: string;
+  testRunId?: string;
+  uploaded: number;
+  failed: number;
+  error?: string;
+}
+
+/**
+ * Write unsent results and their attachments to a new entry in the spool directory
+ *
+ * Attachment files that cannot be copied (e.g. deleted or unreadable) are skipped
+ * with a warning, so they don't cost the results they belong to.
+ *
+ * @returns Path of the created spool entry
+ */
+export function writeSpool(
+  spoolDir: string,
+  manifest: Omit<SpoolManifest, 'version' | 'createdAt' | 'results'>,
+  pending: PendingResult[]
+): string {
+  const createdAt = new Date();
+  const entryName = `${createdAt.toISOString().replace(/[:.]/g, '-')}-${Math.random()
+    .toString(36)
+    .slice(2, 8)}`;
+  const entryDir = path.join(spoolDir, entryName);
+  fs.mkdirSync(path.join(entryDir, ATTACHMENTS_DIR), { recursive: true });
+
+  const results = pending.map((item, resultIndex): SpooledResult => {
+    const attachments = item.attachments.flatMap((attachment, attachmentIndex) => {
+      const file = path.join(
+        ATTACHMENTS_DIR,
+        `${resultIndex}-${attachmentIndex}-${toSafeFileName(attachment.name)}`
+      );
+      try {
+        if (attachment.path) {
+          fs.copyFileSync(attachment.path, path.join(entryDir, file));
+        } else {
+          fs.writeFileSync(path.join(entryDir, file), attachment.data ?? Buffer.alloc(0));
+        }
+      } catch (error) {
+        console.warn(
+          `[QAStudio.dev Reporter] Skipped spooling attachment ${attachment.name}: ${error instanceof Error ? error.message : String(error)}`
+        );
+        return [];
+      }
+      return [
+        {
+          name: attachment.name,
+          contentType: attachment.contentType,
+          type: attachment.type,
+          metadata: attachment.metadata,
+          file,
+        },
+      ];
+    });
+    return { result: item.result, attachments, testResultId: item.testResultId };
+  });
+
+  const fullManifest: SpoolManifest = {
+    version: 1,
+    createdAt: createdAt.toISOString(),
+    ...manifest,
+    results,
+  };
+  writeManifest(entryDir, fullManifest);
+
+  return entryDir;
+}
+
+/**
+ * Upload every run stored in a spool directory
+ *
+ * Each entry creates its test run (unless it already has one), submits its results,
+ * uploads their attachments and completes the run. Results that were submitted before
+ * spooling only get their attachments uploaded. Fully replayed entries are removed;
+ * entries with failures are rewritten to contain only what is still unsent, so replay
+ * can safely be run again.
+ */
+export async function replaySpool(options: ReplaySpoolOptions): Promise<ReplaySpoolResult[]> {
+  const entries = listSpoolEntries(options.spoolDir);
+  const outcomes: ReplaySpoolResult[] = [];
+
+  for (const entryDir of entries) {
+    outcomes.push(await replayEntry(entryDir, options));
+  }
+
+  return outcomes;
+}
+
+/**
+ * List spool entry directories, oldest first
+ */
+export function listSpoolEntries(spoolDir: string): string[] {
+  if (!fs.existsSync(spoolDir)) {
+    return [];
+  }
+
+  return fs
+    .readdirSync(spoolDir, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory())
+    .map((entry) => path.join(spoolDir, entry.name))
+    .filter((entryDir) => fs.existsSync(path.join(entryDir, MANIFEST_FILE)))
+    .sort();
+}
+
+/**
+ * Read a spool entry manifest
+ */
+export function readManifest(entryDir: string): SpoolManifest {
+  const manifest = JSON.parse(
+    fs.readFileSync(path.join(entryDir, MANIFEST_FILE), 'utf-8')
+  ) as SpoolManifest;
+
+  if (manifest.version !== 1) {
+    throw new Error(`Unsupported spool manifest version: ${String(manifest.version)}`);
+  }
+
+  return manifest;
+}
+
+/**
+ * Replay a single spool entry
+ */
+async function replayEntry(
+  entryDir: string,
+  options: ReplaySpoolOptions
+): Promise<ReplaySpoolResult> {
+  const outcome: ReplaySpoolResult = { entry: entryDir, uploaded: 0, failed: 0 };
+
+  let manifest: SpoolManifest;
+  try {
+    manifest = readManifest(entryDir);
+  } catch (error) {
+    outcome.error = error instanceof Error ? error.message : String(error);
+    return outcome;
+  }
+
+  const apiClient = new QAStudioAPIClient({
+    ...options,
+    projectId: manifest.projectId,
+  });
+
+  try {
+    if (!manifest.testRunId) {
+      const response = await apiClient.createTestRun(manifest.testRun);
+      manifest.testRunId = response.id;
+      // Persist the run ID right away so a later replay doesn't create a duplicate run
+      writeManifest(entryDir, manifest);
+    }
+    const testRunId = manifest.testRunId;
+    outcome.testRunId = testRunId;
+
+    const unsent: SpooledResult[] = [];
+    // Attachments that fail stay in the entry, so a later replay can retry them
+    const uploadAttachmentsOf = async (item: SpooledResult, testResultId: string) => {
+      const failed = await uploadSpooledAttachments(
+        apiClient,
+        entryDir,
+        testResultId,
+        item.attachments
+      );
+      if (failed.length > 0) {
+        unsent.push({ ...item, attachments: failed, testResultId });
+      }
+    };
+
+    const toSubmit: SpooledResult[] = [];
+    for (const item of manifest.results) {
+      if (item.testResultId) {
+        await uploadAttachmentsOf(item, item.testResultId);
+      } else {
+        toSubmit.push(item);
+      }
+    }
+
+    for (const batch of batchArray(toSubmit, Math.max(1, options.batchSize ?? 50))) {
+      const results = batch.map((item) => item.result);
+
+      let mapped: Array<{ testResultId?: string; error?: string }>;
+      try {
+        const response = await apiClient.submitTestResults({ testRunId, results });
+        mapped = mapBatchResponse(results, response);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        mapped = batch.map(() => ({ error: message }));
+      }
+
+      for (const [index, item] of batch.entries()) {
+        const { testResultId, error } = mapped[index];
+        if (error) {
+          unsent.push(item);
+          outcome.failed++;
+          continue;
+        }
+        if (testResultId) {
+          await uploadAttachmentsOf(item, testResultId);
+        }
+        outcome.uploaded++;
+      }
+    }
+
+    manifest.results = unsent;
+    // Attachments still waiting for upload don't hold back completing the run
+    if (!manifest.completed && unsent.every((item) => item.testResultId)) {
+      if (manifest.testRun.shard) {
+        await completeShard(apiClient, testRunId, manifest.testRun.shard, manifest.summary, {
+          status: manifest.status,
+          errors: manifest.errors,
+        });
+      } else {
+        await apiClient.completeTestRun({
+          testRunId,
+          status: manifest.status,
+          errored: (manifest.errors?.length ?? 0) > 0,
+          errors: manifest.errors,
+          summary: manifest.summary,
+        });
+      }
+      manifest.completed = true;
+    }
+  } catch (error) {
+    outcome.error = error instanceof Error ? error.message : String(error);
+  }
+
+  if (manifest.completed && manifest.results.length === 0) {
+    fs.rmSync(entryDir, { recursive: true, force: true });
+  } else {
+    writeManifest(entryDir, manifest);
+  }
+
+  return outcome;
+}
+
+/**
+ * Upload spooled attachment files for a test result, continuing past individual failures
+ *
+ * @returns Attachments that failed to upload
+ */
+async function uploadSpooledAttachments(
+  apiClient: QAStudioAPIClient,
+  entryDir: string,
+  testResultId: string,
+  attachments: SpooledAttachment[]
+): Promise<SpooledAttachment[]> {
+  const failed: SpooledAttachment[] = [];
+  for (const attachment of attachments) {
+    try {
+      await apiClient.uploadAttachment(
+        testResultId,
+        attachment.name,
+        attachment.contentType,
+        path.join(entryDir, attachment.file),
+        attachment.type,
+        attachment.metadata
+      );
+    } catch (error) {
+      failed.push(attachment);
+      console.warn(
+        `[QAStudio.dev Reporter] Failed to upload spooled attachment ${attachment.name}:`,
+        error instanceof Error ? error.message : error
+      );
+    }
+  }
+  return failed;
+}
+
+/**
+ * Write a spool manifest to its entry directory
+ */
+function writeManifest(entryDir: string, manifest: SpoolManifest): void {
+  fs.writeFileSync(path.join(entryDir, MANIFEST_FILE), JSON.stringify(manifest, null, 2));
+}
+
+/**
+ * Make an attachment name safe to use as a file name
+ */
+function toSafeFileName(name: string): string {
+  return name.replace(/[^a-zA-Z0-9._-]+/g, '_').slice(0, 100) || 'attachment';
+}
@@ -0,0 +1,119 @@
+import { describe, it, expect, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { Suite, TestCase } from '@playwright/test/reporter';
+import type { QAStudioAPIClient } from './api-client';
+import type { TestCaseMapping } from './types';
+import {
+  collectUnlinkedTests,
+  getTestCaseKey,
+  readTestCaseMapping,
+  syncTestCases,
+  writeTestCaseMapping,
+} from './test-case-sync';
+
+const rootDir = path.join(path.sep, 'repo', 'tests');
+
+const makeTest = (id: string, project: string, titles: string[], annotations = []) =>
+  ({
+    id,
+    title: titles[titles.length - 1],
+    tags: [],
+    annotations,
+    parent: undefined,
+    location: { file: path.join(rootDir, 'auth', 'login.spec.ts'), line: 7, column: 1 },
+    titlePath: () => ['', project, 'auth/login.spec.ts', ...titles],
+  }) as unknown as TestCase;
+
+describe('getTestCaseKey', () => {
+  it('should combine the relative file and the describe and test titles', () => {
+    const test = makeTest('1', 'chromium', ['Login', 'user can login']);
+    expect(getTestCaseKey(test, rootDir)).toBe('auth/login.spec.ts > Login > user can login');
+  });
+
+  it('should not depend on the project', () => {
+    const chromium = makeTest('1', 'chromium', ['user can login']);
+    const firefox = makeTest('2', 'firefox', ['user can login']);
+    expect(getTestCaseKey(chromium, rootDir)).toBe(getTestCaseKey(firefox, rootDir));
+  });
+});
+
+describe('collectUnlinkedTests', () => {
+  it('should skip tests that already have a test case ID', () => {
+    const linked = makeTest('1', 'chromium', ['[QA-1] user can login']);
+    const unlinked = makeTest('2', 'chromium', ['user can logout']);
+    const suite = { allTests: () => [linked, unlinked] } as unknown as Suite;
+
+    const entries = collectUnlinkedTests(suite, rootDir, (test) => test.title.startsWith('[QA-'));
+
+    expect([...entries.keys()]).toEqual(['2']);
+    expect(entries.get('2')).toEqual({
+      key: 'auth/login.spec.ts > user can logout',
+      title: 'user can logout',
+      titlePath: ['user can logout'],
+      file: 'auth/login.spec.ts',
+      line: 7,
+      tags: undefined,
+    });
+  });
+});
+
+describe('syncTestCases', () => {
+  const entry = (key: string) => ({ key, title: key, titlePath: [key], file: 'a.spec.ts' });
+
+  it('should send only unmapped keys once and record the returned IDs', async () => {
+    const apiClient = {
+      syncTestCases: vi.fn(async () => ({
+        testCases: [
+          { key: 'b', id: 'TC-2', created: true },
+          { key: 'c', id: 'TC-3', created: false },
+        ],
+      })),
+    } as unknown as QAStudioAPIClient;
+    const mapping: TestCaseMapping = { version: 1, projectId: 'p', testCases: { a: 'TC-1' } };
+
+    const counts = await syncTestCases(
+      apiClient,
+      mapping,
+      [entry('a'), entry('b'), entry('c'), entry('b')],
+      50
+    );
+
+    expect(counts).toEqual({ created: 1, matched: 1 });
+    expect(apiClient.syncTestCases).toHaveBeenCalledWith({
+      projectId: 'p',
+      testCases: [entry('b'), entry('c')],
+    });
+    expect(mapping.testCases).toEqual({ a: 'TC-1', b: 'TC-2', c: 'TC-3' });
+  });
+
+  it('should not call the API when every test is mapped', async () => {
+    const apiClient = { syncTestCases: vi.fn() } as unknown as QAStudioAPIClient;
+    const mapping: TestCaseMapping = { version: 1, projectId: 'p', testCases: { a: 'TC-1' } };
+
+    await syncTestCases(apiClient, mapping, [entry('a')], 50);
+
+    expect(apiClient.syncTestCases).not.toHaveBeenCalled();
+  });
+});
+
+describe('test case mapping file', () => {
+  it('should round-trip with sorted keys', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'qastudio-mapping-'));
+    try {
+      const file = path.join(dir, 'nested', 'mapping.json');
+      writeTestCaseMapping(file, { version: 1, projectId: 'p', testCases: { b: '2', a: '1' } });
+
+      expect(Object.keys(JSON.parse(fs.readFileSync(file, 'utf-8')).testCases)).toEqual(['a', 'b']);
+      expect(readTestCaseMapping(file)).toEqual({
+        version: 1,
+        projectId: 'p',
+        testCases: { a: '1', b: '2' },
+      });
+      expect(readTestCaseMapping(path.join(dir, 'missing.json'))).toBeUndefined();
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
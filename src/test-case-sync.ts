@@ -0,0 +1,119 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Suite, TestCase } from '@playwright/test/reporter';
+import type { QAStudioAPIClient } from './api-client';
+import type { TestCaseMapping, TestCaseSyncEntry } from './types';
+import { batchArray, extractTags, getRelativeTestFile, getTestTitlePath } from './utils';
+
+/**
+ * Build the stable key identifying a test across runs and projects
+ *
+ * The key is the test file relative to `rootDir` (with forward slashes) followed
+ * by the describe and test titles, so it survives line changes and running the
+ * same test in several Playwright projects.
+ */
+export function getTestCaseKey(test: TestCase, rootDir: string): string {
+  return [getRelativeTestFile(test, rootDir), ...getTestTitlePath(test)].join(' > ');
+}
+
+/**
+ * Describe every test in the suite that has no test case ID yet
+ *
+ * @param hasTestCaseId - Whether a test is already linked (annotation, tag or title ID)
+ * @returns Sync entries keyed by Playwright test ID
+ */
+export function collectUnlinkedTests(
+  suite: Suite,
+  rootDir: string,
+  hasTestCaseId: (test: TestCase) => boolean
+): Map<string, TestCaseSyncEntry> {
+  const entries = new Map<string, TestCaseSyncEntry>();
+
+  for (const test of suite.allTests()) {
+    if (hasTestCaseId(test)) {
+      continue;
+    }
+
+    const tags = extractTags(test);
+    entries.set(test.id, {
+      key: getTestCaseKey(test, rootDir),
+      title: test.title,
+      titlePath: getTestTitlePath(test),
+      file: getRelativeTestFile(test, rootDir),
+      line: test.location?.line,
+      tags: tags.length > 0 ? tags : undefined,
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Read a test case mapping file
+ *
+ * @returns The mapping, or undefined if the file does not exist
+ */
+export function readTestCaseMapping(file: string): TestCaseMapping | undefined {
+  if (!fs.existsSync(file)) {
+    return undefined;
+  }
+
+  const mapping = JSON.parse(fs.readFileSync(file, 'utf-8')) as TestCaseMapping;
+  if (mapping.version !== 1 || typeof mapping.testCases !== 'object') {
+    throw new Error(`Unsupported test case mapping file: ${file}`);
+  }
+  return mapping;
+}
+
+/**
+ * Write a test case mapping file with sorted keys, so diffs stay small
+ */
+export function writeTestCaseMapping(file: string, mapping: TestCaseMapping): void {
+  const testCases = Object.fromEntries(
+    Object.entries(mapping.testCases).sort(([a], [b]) => a.localeCompare(b))
+  );
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, `${JSON.stringify({ ...mapping, testCases }, null, 2)}\n`);
+}
+
+/**
+ * Create or match test cases for entries missing from the mapping
+ *
+ * Entries already in the mapping are not sent. The mapping is updated in place
+ * with the IDs returned by the API.
+ */
+export async function syncTestCases(
+  apiClient: QAStudioAPIClient,
+  mapping: TestCaseMapping,
+  entries: Iterable<TestCaseSyncEntry>,
+  batchSize: number
+): Promise<{ created: number; matched: number }> {
+  // The same test runs once per project, so several entries can share a key
+  const unmapped = new Map<string, TestCaseSyncEntry>();
+  for (const entry of entries) {
+    if (!mapping.testCases[entry.key]) {
+      unmapped.set(entry.key, entry);
+    }
+  }
+
+  let created = 0;
+  let matched = 0;
+
+  for (const batch of batchArray([...unmapped.values()], Math.max(1, batchSize))) {
+    const response = await apiClient.syncTestCases({
+      projectId: mapping.projectId,
+      testCases: batch,
+    });
+
+    for (const testCase of response.testCases) {
+      mapping.testCases[testCase.key] = testCase.id;
+      if (testCase.created) {
+        created++;
+      } else {
+        matched++;
+      }
+    }
+  }
+
+  return { created, matched };
+}
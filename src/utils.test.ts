@@ -1,13 +1,30 @@
 import { describe, it, expect } from 'vitest';
+import type { Suite, TestCase, TestResult } from '@playwright/test/reporter';
 import {
   stripAnsi,
   sanitizeUrl,
   sanitizeString,
   validateOptions,
   batchArray,
+  computeBackoff,
+  parseRetryAfter,
+  isFinalAttempt,
+  extractTags,
+  extractMetadata,
+  extractTestCaseIds,
+  stripTestCaseIds,
+  convertTestResult,
+  collectPlannedTests,
+  getTestIdentity,
+  convertRunError,
+  mapTestStatus,
+  mapBatchResponse,
+  formatBytes,
   formatDuration,
   generateTestRunName,
+  filterAttachments,
 } from './utils';
+import type { AttachmentUpload } from './types';
 
 describe('stripAnsi', () => {
   it('should return undefined for undefined input', () => {
@@ -147,6 +164,15 @@ describe('validateOptions', () => {
     expect(() => validateOptions(options)).toThrow(/apiKey is required/);
   });
 
+  it('should not require apiKey in a dry run', () => {
+    expect(() =>
+      validateOptions({ ...validOptions, apiKey: undefined, dryRun: true })
+    ).not.toThrow();
+    expect(() => validateOptions({ ...validOptions, apiKey: 42, dryRun: true })).toThrow(
+      /apiKey is required and must be a string/
+    );
+  });
+
   it('should throw if apiKey is not a string', () => {
     const options = { ...validOptions, apiKey: 123 };
     expect(() => validateOptions(options)).toThrow(/apiKey is required/);
@@ -206,6 +232,587 @@ describe('batchArray', () => {
   });
 });
 
+describe('isFinalAttempt', () => {
+  const makeTest = (retries: number) =>
+    ({ retries, expectedStatus: 'passed' }) as unknown as TestCase;
+  const makeResult = (retry: number, status: TestResult['status']) =>
+    ({ retry, status }) as unknown as TestResult;
+
+  it('should be final when the attempt passed before retries ran out', () => {
+    expect(isFinalAttempt(makeTest(2), makeResult(0, 'passed'))).toBe(true);
+  });
+
+  it('should not be final when a failed attempt will be retried', () => {
+    expect(isFinalAttempt(makeTest(2), makeResult(0, 'failed'))).toBe(false);
+    expect(isFinalAttempt(makeTest(2), makeResult(1, 'timedOut'))).toBe(false);
+  });
+
+  it('should be final when retries are used up', () => {
+    expect(isFinalAttempt(makeTest(2), makeResult(2, 'failed'))).toBe(true);
+    expect(isFinalAttempt(makeTest(0), makeResult(0, 'failed'))).toBe(true);
+  });
+
+  it('should be final for skipped and interrupted attempts', () => {
+    expect(isFinalAttempt(makeTest(2), makeResult(0, 'skipped'))).toBe(true);
+    expect(isFinalAttempt(makeTest(2), makeResult(0, 'interrupted'))).toBe(true);
+  });
+
+  it('should be final when a test expected to fail fails', () => {
+    const test = { retries: 2, expectedStatus: 'failed' } as unknown as TestCase;
+    expect(isFinalAttempt(test, makeResult(0, 'failed'))).toBe(true);
+  });
+});
+
+describe('extractTags', () => {
+  const makeTest = (overrides: Partial<TestCase>) =>
+    ({
+      title: 'checkout',
+      tags: [],
+      annotations: [],
+      parent: { title: '', parent: undefined },
+      ...overrides,
+    }) as unknown as TestCase;
+
+  it('should combine test.tags, title tags and tag annotations without duplicates', () => {
+    const test = makeTest({
+      title: 'checkout @smoke',
+      tags: ['@smoke', '@payments'],
+      parent: { title: 'cart @regression', parent: undefined } as unknown as TestCase['parent'],
+      annotations: [
+        { type: 'tag', description: 'critical' },
+        { type: 'tag', description: '@payments' },
+      ],
+    });
+
+    expect(extractTags(test)).toEqual(['smoke', 'payments', 'regression', 'critical']);
+  });
+
+  it('should ignore @ inside words such as email addresses', () => {
+    expect(extractTags(makeTest({ title: 'emails user@example.com' }))).toEqual([]);
+  });
+
+  it('should handle Playwright versions without test.tags', () => {
+    expect(extractTags(makeTest({ title: 'login @auth', tags: undefined }))).toEqual(['auth']);
+  });
+});
+
+describe('extractTestCaseIds', () => {
+  const makeTest = (title: string, overrides: Record<string, unknown> = {}) =>
+    ({
+      title,
+      tags: [],
+      annotations: [],
+      parent: { title: '[QA-900] checkout', parent: undefined },
+      ...overrides,
+    }) as unknown as TestCase;
+
+  it('should collect IDs from annotations, tags and titles in order', () => {
+    const test = makeTest('[QA-3, QA-4] pays with card', {
+      tags: ['@QA-2', '@smoke'],
+      annotations: [
+        { type: 'testCaseId', description: 'QA-1' },
+        { type: 'testCaseId', description: 'QA-2' },
+      ],
+    });
+
+    expect(extractTestCaseIds(test)).toEqual(['QA-1', 'QA-2', 'QA-3', 'QA-4', 'QA-900']);
+  });
+
+  it('should ignore bracketed text that is not an ID', () => {
+    expect(extractTestCaseIds(makeTest('[WIP] pays with card', { parent: undefined }))).toEqual([]);
+  });
+
+  it('should use a custom pattern', () => {
+    const test = makeTest('[TC_1234] pays with card @TC_99', { parent: undefined });
+    expect(extractTestCaseIds(test, /TC_\d+/)).toEqual(['TC_99', 'TC_1234']);
+    expect(extractTestCaseIds(test, 'TC_\\d+')).toEqual(['TC_99', 'TC_1234']);
+  });
+});
+
+describe('stripTestCaseIds', () => {
+  it('should remove bracketed IDs and ID tags', () => {
+    expect(stripTestCaseIds('[QA-1, QA-2] pays with card @QA-3 @smoke')).toBe(
+      'pays with card @smoke'
+    );
+  });
+
+  it('should keep bracketed text that is not an ID', () => {
+    expect(stripTestCaseIds('[WIP] pays with card')).toBe('[WIP] pays with card');
+  });
+});
+
+describe('convertTestResult test case IDs', () => {
+  const test = {
+    id: 'abc',
+    title: '[TC_7] pays with card',
+    tags: [],
+    annotations: [],
+    retries: 0,
+    expectedStatus: 'passed',
+    outcome: () => 'expected',
+    location: { file: '/repo/tests/checkout.spec.ts', line: 4, column: 1 },
+    titlePath: () => ['', '', 'checkout.spec.ts', 'checkout [TC_8]', '[TC_7] pays with card'],
+    parent: { title: 'checkout [TC_8]', parent: undefined, project: () => undefined },
+  } as unknown as TestCase;
+  const result = { status: 'passed', duration: 1, retry: 0, steps: [] } as unknown as TestResult;
+
+  it('should apply the configured pattern and strip IDs from titles', () => {
+    const converted = convertTestResult(test, result, new Date(), {
+      apiUrl: 'https://qastudio.dev/api',
+      apiKey: 'key',
+      projectId: 'project',
+      testCaseIdPattern: /TC_\d+/,
+      stripTestCaseIdFromTitle: true,
+    });
+
+    expect(converted.testCaseId).toBe('TC_7');
+    expect(converted.testCaseIds).toEqual(['TC_7', 'TC_8']);
+    expect(converted.title).toBe('pays with card');
+    expect(converted.fullTitle).toBe('checkout > pays with card');
+  });
+
+  it('should use a custom extractor', () => {
+    const converted = convertTestResult(test, result, new Date(), {
+      apiUrl: 'https://qastudio.dev/api',
+      apiKey: 'key',
+      projectId: 'project',
+      extractTestCaseIds: () => ['CUSTOM-1'],
+    });
+
+    expect(converted.testCaseIds).toEqual(['CUSTOM-1']);
+    expect(converted.title).toBe('[TC_7] pays with card');
+  });
+
+  it('should redact the API key and configured values from every text field', () => {
+    const failed = {
+      ...result,
+      status: 'failed',
+      error: { message: 'login failed for s3cret-pass' },
+      steps: [
+        {
+          title: 'fill "s3cret-pass"',
+          category: 'pw:api',
+          startTime: new Date(),
+          duration: 3,
+          steps: [],
+        },
+      ],
+    } as unknown as TestResult;
+
+    const converted = convertTestResult(test, failed, new Date(), {
+      apiUrl: 'https://qastudio.dev/api',
+      apiKey: 'key',
+      projectId: 'project',
+      redactValues: ['s3cret-pass'],
+    });
+
+    expect(converted.error).toBe('login failed for [REDACTED]');
+    expect(converted.steps?.[0].title).toBe('fill "[REDACTED]"');
+  });
+});
+
+describe('convertTestResult flaky detection', () => {
+  const options = { apiUrl: 'https://qastudio.dev/api', apiKey: 'key', projectId: 'project' };
+  const makeTest = (outcome: string) =>
+    ({
+      id: 'abc',
+      title: 'pays with card',
+      tags: [],
+      annotations: [],
+      retries: 2,
+      expectedStatus: 'passed',
+      outcome: () => outcome,
+      location: { file: '/repo/tests/checkout.spec.ts', line: 4, column: 1 },
+      titlePath: () => ['', '', 'checkout.spec.ts', 'pays with card'],
+      parent: { title: '', parent: undefined, project: () => undefined },
+    }) as unknown as TestCase;
+  const makeResult = (status: string, retry: number) =>
+    ({ status, duration: 1, retry, steps: [] }) as unknown as TestResult;
+
+  it('should flag the final attempt of a test that passed on retry', () => {
+    const converted = convertTestResult(
+      makeTest('flaky'),
+      makeResult('passed', 1),
+      new Date(),
+      options
+    );
+
+    expect(converted.isFinalAttempt).toBe(true);
+    expect(converted.flaky).toBe(true);
+  });
+
+  it('should not flag the failed attempts that were retried', () => {
+    const converted = convertTestResult(
+      makeTest('flaky'),
+      makeResult('failed', 0),
+      new Date(),
+      options
+    );
+
+    expect(converted.isFinalAttempt).toBe(false);
+    expect(converted.flaky).toBeUndefined();
+  });
+
+  it('should not flag tests that passed first time or failed every attempt', () => {
+    const passed = convertTestResult(
+      makeTest('expected'),
+      makeResult('passed', 0),
+      new Date(),
+      options
+    );
+    const failed = convertTestResult(
+      makeTest('unexpected'),
+      makeResult('failed', 2),
+      new Date(),
+      options
+    );
+
+    expect(passed.flaky).toBeUndefined();
+    expect(failed.isFinalAttempt).toBe(true);
+    expect(failed.flaky).toBeUndefined();
+  });
+});
+
+describe('filterAttachments', () => {
+  const test = {
+    title: 'pays with card',
+    expectedStatus: 'passed',
+    parent: { project: () => ({ use: { browserName: 'chromium' } }) },
+  } as unknown as TestCase;
+  const passed = { status: 'passed' } as unknown as TestResult;
+  const failed = { status: 'failed' } as unknown as TestResult;
+  const makeAttachments = (): AttachmentUpload[] => [
+    {
+      name: 'screenshot',
+      contentType: 'image/png',
+      data: Buffer.from('png'),
+      size: 3,
+      type: 'screenshot',
+    },
+    {
+      name: 'video',
+      contentType: 'video/webm',
+      path: '/tmp/video.webm',
+      size: 2000,
+      type: 'video',
+    },
+    {
+      name: 'trace',
+      contentType: 'application/zip',
+      path: '/tmp/trace.zip',
+      size: 500,
+      type: 'trace',
+    },
+  ];
+  const names = (attachments: AttachmentUpload[]) => attachments.map((a) => a.name);
+
+  it('should upload every trace by default', () => {
+    expect(names(filterAttachments(test, passed, makeAttachments(), {}))).toEqual([
+      'screenshot',
+      'video',
+      'trace',
+    ]);
+  });
+
+  it('should apply the trace upload policy', () => {
+    const attachments = makeAttachments();
+
+    expect(names(filterAttachments(test, failed, attachments, { uploadTraces: 'off' }))).toEqual([
+      'screenshot',
+      'video',
+    ]);
+    expect(names(filterAttachments(test, passed, attachments, { uploadTraces: 'on' }))).toContain(
+      'trace'
+    );
+    expect(
+      names(filterAttachments(test, passed, attachments, { uploadTraces: 'on-failure' }))
+    ).not.toContain('trace');
+    expect(
+      names(filterAttachments(test, failed, attachments, { uploadTraces: 'on-failure' }))
+    ).toContain('trace');
+  });
+
+  it('should skip screenshots and videos when disabled', () => {
+    const filtered = filterAttachments(test, failed, makeAttachments(), {
+      uploadScreenshots: false,
+      uploadVideos: false,
+    });
+
+    expect(names(filtered)).toEqual(['trace']);
+  });
+
+  it('should skip attachments over the size limit of their type', () => {
+    const filtered = filterAttachments(test, failed, makeAttachments(), {
+      maxAttachmentSize: { video: 1000, trace: 500 },
+    });
+
+    expect(names(filtered)).toEqual(['screenshot', 'trace']);
+  });
+
+  it('should add trace viewer metadata without changing the original attachments', () => {
+    const attachments = makeAttachments();
+
+    const [, , trace] = filterAttachments(test, failed, attachments, {}, '1.56.1');
+
+    expect(trace.metadata).toEqual({ playwrightVersion: '1.56.1', browserName: 'chromium' });
+    expect(attachments[2].metadata).toBeUndefined();
+  });
+});
+
+describe('getTestIdentity', () => {
+  const makeTest = (file: string, project: string, annotations: unknown[] = []) =>
+    ({
+      annotations,
+      location: { file, line: 1, column: 1 },
+      titlePath: () => ['', project, 'login.spec.ts', 'auth', 'logs in'],
+      parent: { project: () => ({ name: project }) },
+    }) as unknown as TestCase;
+
+  it('should not depend on where the repository is checked out', () => {
+    expect(
+      getTestIdentity(makeTest('/ci/build/tests/login.spec.ts', 'chromium'), '/ci/build')
+    ).toBe(
+      getTestIdentity(makeTest('/home/dev/app/tests/login.spec.ts', 'chromium'), '/home/dev/app')
+    );
+  });
+
+  it('should differ between projects and files', () => {
+    const identity = getTestIdentity(makeTest('/repo/tests/login.spec.ts', 'chromium'), '/repo');
+
+    expect(identity).toMatch(/^[0-9a-f]{32}$/);
+    expect(getTestIdentity(makeTest('/repo/tests/login.spec.ts', 'firefox'), '/repo')).not.toBe(
+      identity
+    );
+    expect(getTestIdentity(makeTest('/repo/tests/auth.spec.ts', 'chromium'), '/repo')).not.toBe(
+      identity
+    );
+  });
+
+  it('should use the qastudio-identity annotation when present', () => {
+    const test = makeTest('/repo/tests/login.spec.ts', 'chromium', [
+      { type: 'qastudio-identity', description: ' login-happy-path ' },
+    ]);
+
+    expect(getTestIdentity(test, '/repo')).toBe('login-happy-path');
+  });
+});
+
+describe('collectPlannedTests', () => {
+  it('should describe every test in the suite', () => {
+    const test = {
+      id: 'abc',
+      title: '[QA-5] pays with card',
+      tags: ['@smoke'],
+      annotations: [],
+      expectedStatus: 'skipped',
+      location: { file: '/repo/tests/checkout.spec.ts', line: 12, column: 3 },
+      titlePath: () => ['', 'chromium', 'checkout.spec.ts', 'Checkout', '[QA-5] pays with card'],
+      parent: {
+        title: 'Checkout',
+        parent: undefined,
+        project: () => ({ name: 'chromium' }),
+      },
+    } as unknown as TestCase;
+    const suite = { allTests: () => [test] } as unknown as Suite;
+
+    expect(
+      collectPlannedTests(
+        suite,
+        {
+          apiUrl: 'https://qastudio.dev/api',
+          apiKey: 'key',
+          projectId: 'project',
+          stripTestCaseIdFromTitle: true,
+        },
+        '/repo'
+      )
+    ).toEqual([
+      {
+        playwrightTestId: 'abc',
+        identity: getTestIdentity(test, '/repo'),
+        title: 'pays with card',
+        fullTitle: 'Checkout > pays with card',
+        titlePath: ['Checkout', 'pays with card'],
+        projectName: 'chromium',
+        location: { file: '/repo/tests/checkout.spec.ts', line: 12, column: 3 },
+        testCaseId: 'QA-5',
+        testCaseIds: ['QA-5'],
+        expectedStatus: 'skipped',
+        tags: ['smoke'],
+      },
+    ]);
+  });
+});
+
+describe('convertRunError', () => {
+  it('should keep message, stack, snippet and location', () => {
+    expect(
+      convertRunError({
+        message: 'Error: setup failed',
+        stack: 'Error: setup failed\n    at globalSetup (setup.ts:4:9)',
+        snippet: '> 4 | throw new Error("setup failed");',
+        location: { file: '/repo/setup.ts', line: 4, column: 9 },
+      })
+    ).toEqual({
+      message: 'Error: setup failed',
+      stack: 'Error: setup failed\n    at globalSetup (setup.ts:4:9)',
+      snippet: '> 4 | throw new Error("setup failed");',
+      location: { file: '/repo/setup.ts', line: 4, column: 9 },
+    });
+  });
+
+  it('should fall back to the thrown value when there is no message', () => {
+    expect(convertRunError({ value: 'worker exited unexpectedly' })).toEqual({
+      message: 'worker exited unexpectedly',
+    });
+  });
+});
+
+describe('mapTestStatus', () => {
+  it('should map Playwright statuses and keep interrupted tests distinct', () => {
+    expect(mapTestStatus('passed')).toBe('passed');
+    expect(mapTestStatus('timedOut')).toBe('timedout');
+    expect(mapTestStatus('skipped')).toBe('skipped');
+    expect(mapTestStatus('interrupted')).toBe('interrupted');
+    expect(mapTestStatus('unknown')).toBe('failed');
+  });
+});
+
+describe('extractMetadata', () => {
+  it('should include de-duplicated tags and flattened custom annotations', () => {
+    const test = {
+      title: 'checkout',
+      tags: ['@smoke'],
+      annotations: [
+        { type: 'tag', description: 'smoke' },
+        { type: 'issue', description: 'BUG-1' },
+        { type: 'issue', description: 'BUG-2' },
+      ],
+      parent: undefined,
+    } as unknown as TestCase;
+
+    expect(extractMetadata(test)).toEqual({ tags: ['smoke'], issue: 'BUG-2' });
+  });
+});
+
+describe('mapBatchResponse', () => {
+  const makeResult = (title: string) => ({
+    title,
+    fullTitle: `Suite > ${title}`,
+    status: 'passed' as const,
+    duration: 10,
+    startTime: '2025-01-01T00:00:00.000Z',
+    endTime: '2025-01-01T00:00:00.010Z',
+    retry: 0,
+  });
+
+  it('should match results by position when every result was accepted', () => {
+    const mapped = mapBatchResponse([makeResult('a'), makeResult('b')], {
+      success: true,
+      testRunId: 'run-1',
+      processedCount: 2,
+      results: [
+        { testResultId: 'r1', title: 'a' },
+        { testResultId: 'r2', title: 'b' },
+      ],
+    });
+    expect(mapped).toEqual([{ testResultId: 'r1' }, { testResultId: 'r2' }]);
+  });
+
+  it('should match results and errors by title when some results were rejected', () => {
+    const mapped = mapBatchResponse([makeResult('a'), makeResult('b'), makeResult('c')], {
+      success: true,
+      testRunId: 'run-1',
+      processedCount: 2,
+      results: [
+        { testResultId: 'r1', title: 'a' },
+        { testResultId: 'r3', title: 'c' },
+      ],
+      errors: [{ testTitle: 'b', error: 'Invalid status' }],
+    });
+    expect(mapped).toEqual([
+      { testResultId: 'r1' },
+      { error: 'Invalid status' },
+      { testResultId: 'r3' },
+    ]);
+  });
+
+  it('should pair duplicate titles one-to-one', () => {
+    const mapped = mapBatchResponse([makeResult('dup'), makeResult('dup')], {
+      success: true,
+      testRunId: 'run-1',
+      processedCount: 1,
+      results: [{ testResultId: 'r1', title: 'dup' }],
+      errors: [{ testTitle: 'dup', error: 'Duplicate' }],
+    });
+    expect(mapped).toEqual([{ testResultId: 'r1' }, { error: 'Duplicate' }]);
+  });
+
+  it('should fail results the API returned no ID for', () => {
+    const missing = { error: 'The API returned no test result ID' };
+    expect(
+      mapBatchResponse([makeResult('a')], { success: true, testRunId: 'run-1', processedCount: 1 })
+    ).toEqual([missing]);
+    expect(
+      mapBatchResponse([makeResult('a'), makeResult('b')], {
+        success: true,
+        testRunId: 'run-1',
+        processedCount: 2,
+        results: [
+          { testResultId: 'r1', title: 'a' },
+          { testResultId: '', title: 'b' },
+        ],
+      })
+    ).toEqual([{ testResultId: 'r1' }, missing]);
+  });
+});
+
+describe('computeBackoff', () => {
+  it('should grow exponentially and cap at 10 seconds', () => {
+    const noJitter = () => 1;
+    expect(computeBackoff(1, noJitter)).toBe(1000);
+    expect(computeBackoff(2, noJitter)).toBe(2000);
+    expect(computeBackoff(3, noJitter)).toBe(4000);
+    expect(computeBackoff(10, noJitter)).toBe(10000);
+  });
+
+  it('should randomize the upper half of the delay', () => {
+    expect(computeBackoff(2, () => 0)).toBe(1000);
+    expect(computeBackoff(2, () => 0.5)).toBe(1500);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('should parse a delay in seconds', () => {
+    expect(parseRetryAfter('5')).toBe(5000);
+    expect(parseRetryAfter('0')).toBe(0);
+  });
+
+  it('should parse an HTTP date relative to now', () => {
+    const now = Date.parse('2025-01-01T00:00:00Z');
+    expect(parseRetryAfter('Wed, 01 Jan 2025 00:00:10 GMT', now)).toBe(10000);
+    expect(parseRetryAfter('Tue, 31 Dec 2024 23:59:00 GMT', now)).toBe(0);
+  });
+
+  it('should cap long delays at 60 seconds', () => {
+    expect(parseRetryAfter('3600')).toBe(60000);
+  });
+
+  it('should return undefined for missing or invalid headers', () => {
+    expect(parseRetryAfter(undefined)).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
+
+describe('formatBytes', () => {
+  it('should format bytes, kilobytes and larger units', () => {
+    expect(formatBytes(512)).toBe('512 B');
+    expect(formatBytes(1536)).toBe('1.5 KB');
+    expect(formatBytes(310 * 1024 * 1024)).toBe('310.0 MB');
+    expect(formatBytes(3 * 1024 * 1024 * 1024)).toBe('3.0 GB');
+  });
+});
+
 describe('formatDuration', () => {
   it('should format milliseconds less than 1 second', () => {
     expect(formatDuration(500)).toBe('500ms');
@@ -246,4 +853,8 @@ describe('generateTestRunName', () => {
     expect(name1).toMatch(/^Playwright Test Run -/);
     expect(name2).toMatch(/^Playwright Test Run -/);
   });
+
+  it('should use the given start date', () => {
+    expect(generateTestRunName(new Date('2024-03-05T12:00:00Z'))).toContain('2024-03-05');
+  });
 });
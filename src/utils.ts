@@ -1,20 +1,40 @@
+import * as crypto from 'crypto';
 import * as fs from 'fs';
-import type { TestCase, TestResult, Suite, TestStep } from '@playwright/test/reporter';
+import * as path from 'path';
+import type { TestCase, TestResult, Suite, TestStep, TestError } from '@playwright/test/reporter';
 import type {
   QAStudioTestResult,
   QAStudioAttachment,
   QAStudioReporterOptions,
   QAStudioTestStep,
+  AttachmentUpload,
+  SubmitTestResultsResponse,
+  OptionSources,
+  PlannedTest,
+  RunError,
 } from './types';
+import { buildConsoleOutput, removeAnsiCodes, type ConsoleChunk } from './console-output';
+import { Redactor, getRedactionRules } from './redaction';
 
 /**
  * Convert Playwright test result to QAStudio.dev format
+ *
+ * Secrets are redacted from every string field; pass a shared `redactor` to
+ * count redactions across results.
+ *
+ * @param context.consoleChunks - Output recorded through onStdOut/onStdErr, with timestamps
+ * @param context.rootDir - Playwright's rootDir, used for the test identity
  */
 export function convertTestResult(
   test: TestCase,
   result: TestResult,
   startTime: Date,
-  options?: QAStudioReporterOptions
+  options?: QAStudioReporterOptions,
+  context: {
+    consoleChunks?: { stdout: ConsoleChunk[]; stderr: ConsoleChunk[] };
+    redactor?: Redactor;
+    rootDir?: string;
+  } = {}
 ): QAStudioTestResult {
   const endTime = new Date(startTime.getTime() + result.duration);
 
@@ -22,12 +42,18 @@ export function convertTestResult(
   const includeErrorSnippet = options?.includeErrorSnippet !== false; // default true
   const includeErrorLocation = options?.includeErrorLocation !== false; // default true
   const includeTestSteps = options?.includeTestSteps !== false; // default true
-  const includeConsoleOutput = options?.includeConsoleOutput === true; // default false
+
+  const idPattern = options?.testCaseIdPattern ?? DEFAULT_TEST_CASE_ID_PATTERN;
+  const testCaseIds = resolveTestCaseIds(test, options);
+  const formatTitle = options?.stripTestCaseIdFromTitle
+    ? (title: string) => stripTestCaseIds(title, idPattern)
+    : undefined;
 
   const testResult: QAStudioTestResult = {
-    testCaseId: extractTestCaseId(test),
-    title: test.title,
-    fullTitle: getFullTitle(test),
+    testCaseId: testCaseIds[0],
+    testCaseIds: testCaseIds.length > 0 ? testCaseIds : undefined,
+    title: formatTitle ? formatTitle(test.title) : test.title,
+    fullTitle: getFullTitle(test, formatTitle),
     status: mapTestStatus(result.status),
     duration: result.duration,
     error: result.error?.message,
@@ -35,11 +61,30 @@ export function convertTestResult(
     startTime: startTime.toISOString(),
     endTime: endTime.toISOString(),
     retry: result.retry,
-    attachments: extractAttachments(result),
+    playwrightTestId: test.id,
+    identity: getTestIdentity(test, context.rootDir),
+    isFinalAttempt: isFinalAttempt(test, result),
     projectName: test.parent?.project()?.name,
     metadata: extractMetadata(test),
   };
 
+  const tags = extractTags(test);
+  if (tags.length > 0) {
+    testResult.tags = tags;
+  }
+
+  if (test.annotations.length > 0) {
+    testResult.annotations = test.annotations.map((annotation) => ({
+      type: annotation.type,
+      description: annotation.description,
+    }));
+  }
+
+  // Flag tests that passed only after retrying
+  if (testResult.isFinalAttempt && test.outcome() === 'flaky') {
+    testResult.flaky = true;
+  }
+
   // Add error snippet if available and enabled
   if (includeErrorSnippet && result.error?.snippet) {
     testResult.errorSnippet = result.error.snippet;
@@ -62,20 +107,14 @@ export function convertTestResult(
       .filter((step) => step !== null) as QAStudioTestStep[];
   }
 
-  // Add console output if enabled
-  if (includeConsoleOutput) {
-    const stdout = extractConsoleOutput(result.stdout);
-    const stderr = extractConsoleOutput(result.stderr);
-
-    if (stdout || stderr) {
-      testResult.consoleOutput = {
-        stdout,
-        stderr,
-      };
-    }
+  // Add console output according to the capture policy
+  const redactor = context.redactor ?? new Redactor(getRedactionRules(options));
+  const consoleOutput = buildConsoleOutput(test, result, options, context.consoleChunks, redactor);
+  if (consoleOutput) {
+    testResult.consoleOutput = consoleOutput;
   }
 
-  return testResult;
+  return redactor.redactObject(testResult);
 }
 
 /**
@@ -132,34 +171,130 @@ export function convertTestStep(step: TestStep, filterFixtures = true): QAStudio
 }
 
 /**
- * Extract test case ID from test annotations or title
+ * Default pattern for test case IDs (e.g. QA-123)
+ */
+export const DEFAULT_TEST_CASE_ID_PATTERN = /[A-Z]+-\d+/;
+
+/**
+ * Extract the first test case ID from test annotations, tags or titles
+ */
+export function extractTestCaseId(
+  test: TestCase,
+  pattern: RegExp | string = DEFAULT_TEST_CASE_ID_PATTERN
+): string | undefined {
+  return extractTestCaseIds(test, pattern)[0];
+}
+
+/**
+ * Extract all test case IDs linked to a test, de-duplicated
+ *
+ * IDs are read, in order, from `testCaseId` annotations, tags matching the
+ * pattern (e.g. `@QA-123`), and bracketed IDs in the test title or any describe
+ * title (e.g. "[QA-123] Test title" or "[QA-1, QA-2] Test title").
  */
-export function extractTestCaseId(test: TestCase): string | undefined {
-  // Look for @testCaseId annotation
-  const annotation = test.annotations.find((a) => a.type === 'testCaseId');
-  if (annotation?.description) {
-    return annotation.description;
+export function extractTestCaseIds(
+  test: TestCase,
+  pattern: RegExp | string = DEFAULT_TEST_CASE_ID_PATTERN
+): string[] {
+  const isId = toTestCaseIdMatcher(pattern);
+  const ids: string[] = [];
+
+  // Look for testCaseId annotations
+  for (const annotation of test.annotations) {
+    if (annotation.type === 'testCaseId' && annotation.description) {
+      ids.push(annotation.description.trim());
+    }
   }
 
-  // Look for QAStudio.dev ID in title (e.g., "[QA-123] Test title")
-  const match = test.title.match(/^\[([A-Z]+-\d+)\]/);
-  if (match) {
-    return match[1];
+  // Look for tags such as @QA-123
+  ids.push(...extractTags(test).filter((tag) => isId.test(tag)));
+
+  // Look for bracketed IDs in the test title, then in describe titles
+  let current: TestCase | Suite | undefined = test;
+  while (current) {
+    for (const match of current.title.matchAll(/\[([^\]]+)\]/g)) {
+      const candidates = match[1].split(',').map((id) => id.trim());
+      if (candidates.every((id) => isId.test(id))) {
+        ids.push(...candidates);
+      }
+    }
+    current = current.parent;
+  }
+
+  return [...new Set(ids)];
+}
+
+/**
+ * Get the test case IDs of a test using the reporter's extractor or ID pattern options
+ */
+export function resolveTestCaseIds(
+  test: TestCase,
+  options?: Pick<QAStudioReporterOptions, 'testCaseIdPattern' | 'extractTestCaseIds'>
+): string[] {
+  if (options?.extractTestCaseIds) {
+    return options.extractTestCaseIds(test);
   }
+  return extractTestCaseIds(test, options?.testCaseIdPattern ?? DEFAULT_TEST_CASE_ID_PATTERN);
+}
 
-  return undefined;
+/**
+ * Remove test case IDs (bracketed IDs and ID tags) from a title
+ */
+export function stripTestCaseIds(
+  title: string,
+  pattern: RegExp | string = DEFAULT_TEST_CASE_ID_PATTERN
+): string {
+  const isId = toTestCaseIdMatcher(pattern);
+
+  return title
+    .replace(/\[([^\]]+)\]/g, (match, ids: string) =>
+      ids.split(',').every((id) => isId.test(id.trim())) ? '' : match
+    )
+    .replace(/(^|\s)@([^\s@]+)/g, (match, space: string, tag: string) =>
+      isId.test(tag) ? space : match
+    )
+    .replace(/\s{2,}/g, ' ')
+    .trim();
+}
+
+/**
+ * Build a regex that matches a whole test case ID
+ */
+function toTestCaseIdMatcher(pattern: RegExp | string): RegExp {
+  const source = typeof pattern === 'string' ? pattern : pattern.source;
+  const flags = typeof pattern === 'string' ? '' : pattern.flags.replace(/[gy]/g, '');
+  return new RegExp(`^(?:${source})$`, flags);
+}
+
+/**
+ * Check whether a result is the last attempt Playwright will make for a test
+ *
+ * Playwright retries a test only while its status differs from the expected status,
+ * so an attempt is final once it matches the expectation, was skipped or interrupted,
+ * or used up the configured retries.
+ */
+export function isFinalAttempt(test: TestCase, result: TestResult): boolean {
+  return (
+    result.retry >= test.retries ||
+    result.status === test.expectedStatus ||
+    result.status === 'skipped' ||
+    result.status === 'interrupted'
+  );
 }
 
 /**
  * Get full test title including suite hierarchy
+ *
+ * @param formatTitle - Optional transform applied to each title (e.g. stripping IDs)
  */
-export function getFullTitle(test: TestCase): string {
+export function getFullTitle(test: TestCase, formatTitle?: (title: string) => string): string {
   const titles: string[] = [];
   let current: TestCase | Suite | undefined = test;
 
   while (current) {
-    if (current.title) {
-      titles.unshift(current.title);
+    const title = formatTitle ? formatTitle(current.title) : current.title;
+    if (title) {
+      titles.unshift(title);
     }
     current = current.parent;
   }
@@ -167,10 +302,120 @@ export function getFullTitle(test: TestCase): string {
   return titles.join(' > ');
 }
 
+/**
+ * Annotation that overrides the generated identity of a test
+ */
+export const TEST_IDENTITY_ANNOTATION = 'qastudio-identity';
+
+/**
+ * Get the identity of a test that persists across runs
+ *
+ * The identity is a hash of the test file relative to `rootDir`, the describe and
+ * test titles and the project name, so it is the same on every machine and
+ * differs between projects running the same test. A `qastudio-identity`
+ * annotation replaces it, e.g. to keep a test's history after renaming it.
+ */
+export function getTestIdentity(test: TestCase, rootDir: string = process.cwd()): string {
+  const annotation = test.annotations.find(
+    (a) => a.type === TEST_IDENTITY_ANNOTATION && a.description
+  );
+  if (annotation) {
+    return annotation.description!.trim();
+  }
+
+  return crypto
+    .createHash('sha256')
+    .update(
+      [
+        getRelativeTestFile(test, rootDir),
+        ...getTestTitlePath(test),
+        test.parent?.project()?.name ?? '',
+      ].join('\0')
+    )
+    .digest('hex')
+    .slice(0, 32);
+}
+
+/**
+ * Test file relative to `rootDir`, with forward slashes on every platform
+ */
+export function getRelativeTestFile(test: TestCase, rootDir: string): string {
+  return path.relative(rootDir, test.location.file).split(path.sep).join('/');
+}
+
+/**
+ * Get the describe and test titles of a test, without the root, project and file suite titles
+ */
+export function getTestTitlePath(test: TestCase): string[] {
+  return test.titlePath().slice(3).filter(Boolean);
+}
+
+/**
+ * Describe every test Playwright plans to run in this invocation
+ */
+export function collectPlannedTests(
+  suite: Suite,
+  options?: QAStudioReporterOptions,
+  rootDir?: string
+): PlannedTest[] {
+  const idPattern = options?.testCaseIdPattern ?? DEFAULT_TEST_CASE_ID_PATTERN;
+  const formatTitle = options?.stripTestCaseIdFromTitle
+    ? (title: string) => stripTestCaseIds(title, idPattern)
+    : (title: string) => title;
+
+  return suite.allTests().map((test) => {
+    const testCaseIds = resolveTestCaseIds(test, options);
+    const tags = extractTags(test);
+
+    return {
+      playwrightTestId: test.id,
+      identity: getTestIdentity(test, rootDir),
+      title: formatTitle(test.title),
+      fullTitle: getFullTitle(test, formatTitle),
+      titlePath: getTestTitlePath(test).map(formatTitle).filter(Boolean),
+      projectName: test.parent?.project()?.name,
+      location: {
+        file: test.location.file,
+        line: test.location.line,
+        column: test.location.column,
+      },
+      testCaseId: testCaseIds[0],
+      testCaseIds: testCaseIds.length > 0 ? testCaseIds : undefined,
+      expectedStatus: mapTestStatus(test.expectedStatus),
+      tags: tags.length > 0 ? tags : undefined,
+    };
+  });
+}
+
+/**
+ * Convert an error reported through onError to a run-level error
+ */
+export function convertRunError(error: TestError): RunError {
+  const runError: RunError = {
+    message: error.message ?? error.value ?? 'Unknown error',
+  };
+
+  if (error.stack) {
+    runError.stack = error.stack;
+  }
+  if (error.snippet) {
+    runError.snippet = error.snippet;
+  }
+  if (error.location) {
+    runError.location = {
+      file: error.location.file,
+      line: error.location.line,
+      column: error.location.column,
+    };
+  }
+
+  return runError;
+}
+
 /**
  * Map Playwright test status to QAStudio.dev status
  */
-export function mapTestStatus(status: string): 'passed' | 'failed' | 'skipped' | 'timedout' {
+export function mapTestStatus(status: string): QAStudioTestResult['status'] {
   switch (status) {
     case 'passed':
       return 'passed';
@@ -179,8 +424,9 @@ export function mapTestStatus(status: string): 'passed' | 'failed' | 'skipped' |
     case 'timedOut':
       return 'timedout';
     case 'skipped':
-    case 'interrupted':
       return 'skipped';
+    case 'interrupted':
+      return 'interrupted';
     default:
       return 'failed';
   }
@@ -225,58 +471,113 @@ export function extractAttachments(result: TestResult): QAStudioAttachment[] {
 }
 
 /**
- * Extract attachments as buffers for multipart upload
+ * Collect attachments for multipart upload
+ *
+ * Attachments stored on disk are referenced by path and only stat'ed here;
+ * their content is streamed when they are uploaded.
  */
-export function extractAttachmentsAsBuffers(result: TestResult): Array<{
-  name: string;
-  contentType: string;
-  data: Buffer;
-  type: 'screenshot' | 'video' | 'trace' | 'other';
-}> {
-  const attachments: Array<{
-    name: string;
-    contentType: string;
-    data: Buffer;
-    type: 'screenshot' | 'video' | 'trace' | 'other';
-  }> = [];
+export function extractAttachmentsForUpload(result: TestResult): AttachmentUpload[] {
+  const attachments: AttachmentUpload[] = [];
 
   for (const attachment of result.attachments) {
     const type = determineAttachmentType(attachment.name, attachment.contentType);
 
-    // Get attachment as Buffer
-    let data: Buffer;
     if (attachment.body) {
       // If body is already a Buffer, use it; if string (base64), convert it
-      data =
+      const data =
         typeof attachment.body === 'string'
           ? Buffer.from(attachment.body, 'base64')
           : attachment.body;
+      attachments.push({
+        name: attachment.name,
+        contentType: attachment.contentType,
+        data,
+        size: data.length,
+        type,
+      });
     } else if (attachment.path) {
-      // Read file from disk as Buffer
+      // Reference file on disk by path
       try {
-        data = fs.readFileSync(attachment.path);
+        const { size } = fs.statSync(attachment.path);
+        attachments.push({
+          name: attachment.name,
+          contentType: attachment.contentType,
+          path: attachment.path,
+          size,
+          type,
+        });
       } catch (error) {
         console.warn(
           `[QAStudio.dev Reporter] Failed to read attachment file: ${attachment.path}`,
           error
         );
-        continue; // Skip this attachment if we can't read it
+        // Skip this attachment if we can't read it
       }
-    } else {
-      continue; // Skip if no body or path
     }
-
-    attachments.push({
-      name: attachment.name,
-      contentType: attachment.contentType,
-      data,
-      type,
-    });
+    // Skip if no body or path
   }
 
   return attachments;
 }
 
+/**
+ * Drop attachments excluded by the upload options and tag traces with the
+ * metadata the trace viewer needs
+ *
+ * @param playwrightVersion - Version of Playwright that recorded the traces
+ */
+export function filterAttachments(
+  test: TestCase,
+  result: TestResult,
+  attachments: AttachmentUpload[],
+  options: Pick<
+    QAStudioReporterOptions,
+    'uploadScreenshots' | 'uploadVideos' | 'uploadTraces' | 'maxAttachmentSize'
+  >,
+  playwrightVersion?: string
+): AttachmentUpload[] {
+  const failed = result.status !== test.expectedStatus && result.status !== 'skipped';
+  const uploadTraces = options.uploadTraces ?? 'on';
+  const browserName = test.parent.project()?.use?.browserName;
+
+  return attachments.flatMap((att) => {
+    if (att.type === 'screenshot' && options.uploadScreenshots === false) {
+      return [];
+    }
+    if (att.type === 'video' && options.uploadVideos === false) {
+      return [];
+    }
+    if (
+      att.type === 'trace' &&
+      (uploadTraces === 'off' || (uploadTraces === 'on-failure' && !failed))
+    ) {
+      return [];
+    }
+
+    const maxSize = options.maxAttachmentSize?.[att.type];
+    if (maxSize !== undefined && att.size > maxSize) {
+      console.warn(
+        `[QAStudio.dev Reporter] Skipping ${att.type} "${att.name}" for ${test.title}: ${att.size} bytes exceeds the ${maxSize} byte limit`
+      );
+      return [];
+    }
+
+    if (att.type !== 'trace') {
+      return [att];
+    }
+    return [
+      {
+        ...att,
+        metadata: {
+          ...att.metadata,
+          ...(playwrightVersion ? { playwrightVersion } : {}),
+          ...(browserName ? { browserName } : {}),
+        },
+      },
+    ];
+  });
+}
+
 /**
  * Determine attachment type from name and content type
  */
@@ -297,33 +598,45 @@ export function determineAttachmentType(
 }
 
 /**
- * Extract console output from test result
+ * Collect a test's tags without the leading `@`, de-duplicated
+ *
+ * Sources, in order: Playwright's `test.tags` (which include `{ tag }` details
+ * and title tags of the test and its describe blocks), `@tag` words in titles
+ * (for Playwright versions before `test.tags`), and `tag` annotations.
  */
-export function extractConsoleOutput(output: (string | Buffer)[] | undefined): string | undefined {
-  if (!output || output.length === 0) {
-    return undefined;
+export function extractTags(test: TestCase): string[] {
+  const titleTags: string[] = [];
+  let current: TestCase | Suite | undefined = test;
+  while (current) {
+    for (const match of current.title.matchAll(/(?:^|\s)(@[^\s@]+)/g)) {
+      titleTags.push(match[1]);
+    }
+    current = current.parent;
   }
 
-  const combined = output
-    .map((item) => {
-      if (typeof item === 'string') {
-        return item;
-      }
-      return item.toString('utf-8');
-    })
-    .join('\n');
+  const annotationTags = test.annotations
+    .filter((a) => a.type === 'tag' && a.description)
+    .map((a) => a.description as string);
+
+  const tags = [...(test.tags ?? []), ...titleTags.reverse(), ...annotationTags]
+    .map((tag) => tag.trim().replace(/^@/, ''))
+    .filter(Boolean);
 
-  return combined.trim() || undefined;
+  return [...new Set(tags)];
 }
 
 /**
  * Extract custom metadata from test
+ *
+ * Custom annotations are flattened into `metadata[type]` for compatibility, so
+ * only the last annotation of each type is kept here; the full list is sent as
+ * `annotations` on the result.
  */
 export function extractMetadata(test: TestCase): Record<string, unknown> {
   const metadata: Record<string, unknown> = {};
 
-  // Add tags from annotations
-  const tags = test.annotations.filter((a) => a.type === 'tag').map((a) => a.description);
+  // Add tags from test.tags, titles and annotations
+  const tags = extractTags(test);
   if (tags.length > 0) {
     metadata.tags = tags;
   }
@@ -339,7 +652,7 @@ export function extractMetadata(test: TestCase): Record<string, unknown> {
 
   // Add custom annotations
   for (const annotation of test.annotations) {
-    if (annotation.type !== 'tag' && annotation.type !== 'testCaseId') {
+    if (![TEST_IDENTITY_ANNOTATION, 'tag', 'testCaseId'].includes(annotation.type)) {
       metadata[annotation.type] = annotation.description;
     }
   }
@@ -373,6 +686,100 @@ export function batchArray<T>(array: T[], size: number): T[][] {
   return batches;
 }
 
+/**
+ * Match a batched submission response back to the submitted results
+ *
+ * Returns one entry per submitted result (same order) with the test result ID
+ * assigned by the API, or the error the API reported for that result.
+ * When the API returns exactly one result per submission and no errors, entries
+ * are matched by position; otherwise they are matched by title, in order, so
+ * duplicate titles within a batch are still paired one-to-one. A result the
+ * API returned no ID for counts as failed, since its attachments can't be
+ * uploaded without one.
+ */
+export function mapBatchResponse(
+  results: QAStudioTestResult[],
+  response: SubmitTestResultsResponse
+): Array<{ testResultId?: string; error?: string }> {
+  const returned = response.results ?? [];
+  const errors = response.errors ?? [];
+  const toEntry = (testResultId?: string) =>
+    testResultId ? { testResultId } : { error: 'The API returned no test result ID' };
+
+  if (errors.length === 0 && returned.length === results.length) {
+    return returned.map((entry) => toEntry(entry.testResultId));
+  }
+
+  const usedResults = new Set<number>();
+  const usedErrors = new Set<number>();
+
+  return results.map((result) => {
+    const resultIndex = returned.findIndex(
+      (entry, index) => !usedResults.has(index) && entry.title === result.title
+    );
+    if (resultIndex !== -1) {
+      usedResults.add(resultIndex);
+      return toEntry(returned[resultIndex].testResultId);
+    }
+
+    const errorIndex = errors.findIndex(
+      (entry, index) =>
+        !usedErrors.has(index) &&
+        (entry.testTitle === result.title || entry.testTitle === result.fullTitle)
+    );
+    if (errorIndex !== -1) {
+      usedErrors.add(errorIndex);
+      return { error: errors[errorIndex].error };
+    }
+
+    return toEntry(undefined);
+  });
+}
+
+/**
+ * Longest Retry-After delay honored, so a misbehaving server can't stall the reporter
+ */
+const MAX_RETRY_AFTER_MS = 60000;
+
+/**
+ * Compute the delay before a retry attempt: exponential backoff (1s, 2s, 4s, ... capped
+ * at 10s) with jitter, so parallel workers don't retry in lockstep
+ *
+ * Half of the delay is fixed and the other half random.
+ */
+export function computeBackoff(attempt: number, random: () => number = Math.random): number {
+  const base = Math.min(1000 * Math.pow(2, attempt - 1), 10000);
+  return Math.round(base / 2 + (random() * base) / 2);
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds, or an HTTP date) into milliseconds
+ *
+ * Returns undefined when the header is missing or invalid. Delays are capped at 60s.
+ */
+export function parseRetryAfter(
+  header: string | string[] | undefined,
+  now: number = Date.now()
+): number | undefined {
+  const value = Array.isArray(header) ? header[0] : header;
+  if (!value) {
+    return undefined;
+  }
+
+  let delay: number;
+  if (/^\s*\d+(\.\d+)?\s*$/.test(value)) {
+    delay = parseFloat(value) * 1000;
+  } else {
+    const date = Date.parse(value);
+    if (isNaN(date)) {
+      return undefined;
+    }
+    delay = date - now;
+  }
+
+  return Math.min(Math.max(0, Math.round(delay)), MAX_RETRY_AFTER_MS);
+}
+
 /**
  * Format duration in human-readable format
  */
@@ -393,13 +800,31 @@ export function formatDuration(ms: number): string {
   return `${seconds}s`;
 }
 
+/**
+ * Format a byte count in human-readable format
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  const units = ['KB', 'MB', 'GB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(1)} ${units[unit]}`;
+}
+
 /**
  * Generate default test run name
+ *
+ * @param startTime - When the run started (default: now)
  */
-export function generateTestRunName(): string {
-  const now = new Date();
-  const dateStr = now.toISOString().split('T')[0];
-  const timeStr = now.toTimeString().split(' ')[0].replace(/:/g, '-');
+export function generateTestRunName(startTime: Date = new Date()): string {
+  const dateStr = startTime.toISOString().split('T')[0];
+  const timeStr = startTime.toTimeString().split(' ')[0].replace(/:/g, '-');
   return `Playwright Test Run - ${dateStr} ${timeStr}`;
 }
 
@@ -410,15 +835,7 @@ export function generateTestRunName(): string {
 export function stripAnsi(str: string | undefined): string | undefined {
   if (!str) return str;
 
-  const cleaned = str
-    // Remove ANSI escape sequences (e.g., \x1b[31m, \x1b[0m)
-    .replace(/\x1b\[[0-9;]*[a-zA-Z]/g, '')
-    // Remove bracket codes (e.g., [31m, [0m)
-    .replace(/\[\d+m/g, '')
-    // Remove multi-digit bracket codes (e.g., [1;31m)
-    .replace(/\[\d+;\d+m/g, '')
-    // Trim any whitespace that may have been left
-    .trim();
+  const cleaned = removeAnsiCodes(str).trim();
 
   // Log warning if ANSI codes were detected and removed
   if (cleaned !== str.trim()) {
@@ -456,26 +873,125 @@ export function sanitizeString(str: string | undefined): string | undefined {
 
 /**
  * Validate reporter options
+ *
+ * When `sources` says where a value came from (environment variable, config
+ * file), errors name that source so the bad value is easy to find.
  */
-export function validateOptions(options: unknown): void {
+export function validateOptions(options: unknown, sources: OptionSources = {}): void {
   if (!options || typeof options !== 'object') {
     throw new Error('QAStudio.dev reporter options must be an object');
   }
 
   const opts = options as Record<string, unknown>;
+  const from = (key: keyof QAStudioReporterOptions) =>
+    sources[key] ? ` (from ${sources[key]})` : '';
+  const requiredHint = (key: keyof QAStudioReporterOptions, envName: string) =>
+    sources[key] ? from(key) : ` (set it in the reporter options or ${envName})`;
 
   if (!opts.apiUrl || typeof opts.apiUrl !== 'string') {
-    throw new Error('QAStudio.dev reporter: apiUrl is required and must be a string');
+    throw new Error(
+      `QAStudio.dev reporter: apiUrl is required and must be a string${requiredHint('apiUrl', 'QASTUDIO_API_URL')}`
+    );
   }
 
-  if (!opts.apiKey || typeof opts.apiKey !== 'string') {
-    throw new Error('QAStudio.dev reporter: apiKey is required and must be a string');
+  // A dry run never calls the API, so it can be tried before an API key exists
+  const missingApiKey = !opts.dryRun && !opts.apiKey;
+  if (missingApiKey || (opts.apiKey !== undefined && typeof opts.apiKey !== 'string')) {
+    throw new Error(
+      `QAStudio.dev reporter: apiKey is required and must be a string${requiredHint('apiKey', 'QASTUDIO_API_KEY')}`
+    );
   }
 
   if (!opts.projectId || typeof opts.projectId !== 'string') {
-    throw new Error('QAStudio.dev reporter: projectId is required and must be a string');
+    throw new Error(
+      `QAStudio.dev reporter: projectId is required and must be a string${requiredHint('projectId', 'QASTUDIO_PROJECT_ID')}`
+    );
+  }
+
+  for (const key of [
+    'batchSize',
+    'batchFlushInterval',
+    'maxRetries',
+    'timeout',
+    'maxConcurrentRequests',
+    'maxConcurrentUploads',
+    'heartbeatInterval',
+    'maxConsoleOutputBytes',
+  ] as const) {
+    const value = opts[key];
+    if (
+      value !== undefined &&
+      (typeof value !== 'number' || !Number.isFinite(value) || value < 0)
+    ) {
+      throw new Error(
+        `QAStudio.dev reporter: ${key} must be a non-negative number, got ${JSON.stringify(value)}${from(key)}`
+      );
+    }
+  }
+
+  for (const key of ['batchSize', 'maxConcurrentRequests', 'maxConcurrentUploads'] as const) {
+    const value = opts[key];
+    if (typeof value === 'number' && value < 1) {
+      throw new Error(`QAStudio.dev reporter: ${key} must be at least 1, got ${value}${from(key)}`);
+    }
+  }
+
+  if (opts.proxy !== undefined && opts.proxy !== false && typeof opts.proxy !== 'string') {
+    throw new Error(
+      `QAStudio.dev reporter: proxy must be a URL or false, got ${JSON.stringify(opts.proxy)}${from('proxy')}`
+    );
+  }
+
+  if (
+    opts.uploadTraces !== undefined &&
+    !['off', 'on', 'on-failure'].includes(opts.uploadTraces as string)
+  ) {
+    throw new Error(
+      `QAStudio.dev reporter: uploadTraces must be 'off', 'on' or 'on-failure', got ${JSON.stringify(opts.uploadTraces)}${from('uploadTraces')}`
+    );
+  }
+
+  if (
+    opts.includeConsoleOutput !== undefined &&
+    typeof opts.includeConsoleOutput !== 'boolean' &&
+    !['never', 'on-failure', 'always'].includes(opts.includeConsoleOutput as string)
+  ) {
+    throw new Error(
+      `QAStudio.dev reporter: includeConsoleOutput must be a boolean or 'never', 'on-failure' or 'always', got ${JSON.stringify(opts.includeConsoleOutput)}${from('includeConsoleOutput')}`
+    );
+  }
+
+  if (opts.redactPatterns !== undefined && !Array.isArray(opts.redactPatterns)) {
+    throw new Error(
+      `QAStudio.dev reporter: redactPatterns must be an array of regular expressions${from('redactPatterns')}`
+    );
+  }
+  for (const pattern of (opts.redactPatterns as unknown[] | undefined) ?? []) {
+    if (typeof pattern === 'string') {
+      try {
+        new RegExp(pattern);
+      } catch (error) {
+        throw new Error(
+          `QAStudio.dev reporter: redactPatterns contains an invalid regular expression: ${(error as Error).message}${from('redactPatterns')}`
+        );
+      }
+    }
+  }
+
+  if (typeof opts.testCaseIdPattern === 'string') {
+    try {
+      new RegExp(opts.testCaseIdPattern);
+    } catch (error) {
+      throw new Error(
+        `QAStudio.dev reporter: testCaseIdPattern is not a valid regular expression: ${(error as Error).message}${from('testCaseIdPattern')}`
+      );
+    }
   }
 
   // Validate URL format after stripping ANSI codes
-  sanitizeUrl(opts.apiUrl);
+  try {
+    sanitizeUrl(opts.apiUrl);
+  } catch (error) {
+    throw new Error(`${(error as Error).message}${from('apiUrl')}`);
+  }
 }